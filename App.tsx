@@ -1,59 +1,28 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { Canvas, useFrame, useThree, createPortal } from '@react-three/fiber';
-import { OrbitControls, Environment, Stars, Image, Float, Html, Hud, OrthographicCamera } from '@react-three/drei';
+import { OrbitControls, Environment, Stars, Float, Html, Hud, OrthographicCamera } from '@react-three/drei';
 import { EffectComposer, Bloom, Vignette } from '@react-three/postprocessing';
 import * as THREE from 'three';
 import { Snow } from './components/Snow';
-import { Tree, usePolkaDotTexture } from './components/Tree';
-import { AppMode, PhotoData, GestureType, TreeStyle, TreeShape } from './types';
-import { initializeHandDetection, detectHands } from './services/gesture';
-import { saveFile, getFile, deleteFile, saveSettings, getSettings } from './services/storage';
-
-// Helper: Compress/Resize Image to avoid Memory Crashes with 24+ photos
-const compressImage = (file: File): Promise<Blob> => {
-    return new Promise((resolve) => {
-        const img = document.createElement('img');
-        const url = URL.createObjectURL(file);
-        
-        img.onload = () => {
-            const canvas = document.createElement('canvas');
-            let width = img.width;
-            let height = img.height;
-            const maxDim = 1024; // Limit textures to 1K to save GPU/RAM
-
-            if (width > maxDim || height > maxDim) {
-                if (width > height) {
-                    height *= maxDim / width;
-                    width = maxDim;
-                } else {
-                    width *= maxDim / height;
-                    height = maxDim;
-                }
-            }
-
-            canvas.width = width;
-            canvas.height = height;
-            const ctx = canvas.getContext('2d');
-            if (ctx) {
-                ctx.drawImage(img, 0, 0, width, height);
-                canvas.toBlob((blob) => {
-                    URL.revokeObjectURL(url);
-                    resolve(blob || file); // Fallback to original if blob creation fails
-                }, 'image/jpeg', 0.85); // 85% JPEG quality
-            } else {
-                URL.revokeObjectURL(url);
-                resolve(file);
-            }
-        };
-
-        img.onerror = () => {
-            URL.revokeObjectURL(url);
-            resolve(file);
-        };
-
-        img.src = url;
-    });
-};
+import { Tree, MediaPlane, usePolkaDotTexture } from './components/Tree';
+import { AppMode, PhotoData, PhotoMeta, PhotoEdits, MediaType, PhotoFilter, GestureAction, GestureCalibration, GestureMapping, GestureTrigger, PoseGesture, BodyTrigger, BodyTriggerSettings, CustomShape, TreeStyle, TreeShape, TreeProject } from './types';
+import { GestureEvent, HandFrame, HAND_CONNECTIONS, INDEX_TIP, calibratedEnterScore, calibratedHandConfidence, createGestureTracker, createTriggerTracker, handReading, setHandConfidence, initializeHandDetection, detectHands, isPinching, readZoomGesture } from './services/gesture';
+import { saveFile, saveFiles, getFile, getFiles, deleteFile, deleteFiles, saveSettings, getSettings } from './services/storage';
+import { listTrees, getActiveTreeId, setActiveTreeId, createTree, renameTree, duplicateTree, deleteTree } from './services/trees';
+import { DEFAULT_TREE_ID, DEFAULT_APP_CONFIG, DEFAULT_BODY_TRIGGERS, DEFAULT_GESTURE_CALIBRATION, DEFAULT_GESTURE_MAPPING, DEFAULT_PHOTO_EDITS, PHOTO_DETAIL_KEYS, PhotoDetailKey, treeKey, treeSettingsKey, editedFileKey, photoFileKeys, isDefaultPhotoEdits, displayFocalPoint, normalizeAppConfig, normalizeBodyTriggers, normalizeCustomShapes, normalizeGestureCalibration, normalizeGestureMapping, normalizePhotoMeta, toPhotoMeta } from './services/schema';
+import { exportTreeArchive, importTreeArchive } from './services/archive';
+import { StorageStatus, formatBytes, getStorageStatus, requestPersistentStorage, checkUploadQuota, holdFileKeys, sweepOrphanedFiles } from './services/storageManager';
+import { readTakenAt } from './services/exif';
+import { renderPhotoEdits, renderPhotoEditsToBlob } from './services/photoEditor';
+import { SkippedFile, compressImage, formatSkippedReport, loadImage } from './services/imagePipeline';
+import { CompressionResult, compressImages } from './services/compressionPool';
+import { detectFocalPoint } from './services/faceDetection';
+import { findDuplicateGroups, hashBlob, isNearDuplicate } from './services/photoHash';
+import { isVideoFile, prepareVideo } from './services/videoPipeline';
+import { isAnimatedImage, prepareAnimatedImage } from './services/animatedImage';
+import { BODY_TRIGGER_THRESHOLDS, BodyDetector, BodyReadings, detectBodyTriggers, loadBodyDetector } from './services/bodyTriggers';
+import { PRESET_SHAPES, importShapeFile } from './services/customShapes';
+import { InputAction, InputSource, KEYBOARD_SHORTCUTS, createGamepadInput, createGestureInput, createSwipeInput, createWheelInput, keyLabel, keyboardActions, watchGamepads } from './services/input';
 
 // Safe generation of mock photos - NOW GENERATES EMPTY SLOTS
 const createMockPhoto = (index: number): PhotoData => {
@@ -66,6 +35,70 @@ const createMockPhoto = (index: number): PhotoData => {
     };
 };
 
+// Videos and animated images are stored as uploaded; anything else is a still photo
+const detectMediaType = async (file: File): Promise<MediaType | undefined> => {
+    if (isVideoFile(file)) return 'video';
+    if (await isAnimatedImage(file)) return 'animated';
+    return undefined;
+};
+
+const SAVE_FAILED_MESSAGE = "保存失败，存储空间可能已满。\nCould not save. Storage may be full.";
+
+// Turn one picked file into what a slot stores. Throws with a bilingual message if it can't be used.
+const prepareSlotMedia = async (file: File): Promise<{ blob: Blob } & Pick<PhotoMeta, 'mediaType' | 'takenAt' | 'hash' | 'focalPoint'>> => {
+    const mediaType = await detectMediaType(file);
+    if (mediaType === 'video') {
+        return { blob: await prepareVideo(file), mediaType, takenAt: undefined, hash: undefined, focalPoint: undefined };
+    }
+    const blob = mediaType === 'animated' ? await prepareAnimatedImage(file) : await compressImage(file);
+    return {
+        blob,
+        mediaType,
+        takenAt: await readTakenAt(file), // From the original - compression strips EXIF
+        hash: await hashBlob(blob),
+        focalPoint: await detectFocalPoint(blob)
+    };
+};
+
+// Reset a slot after its photo is removed - details belonged to the old photo, so it starts over
+const toEmptySlot = (photo: PhotoData): PhotoData => {
+    return { id: photo.id, url: 'data:image/gif;base64,R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', isEmpty: true, version: photo.version + 1 };
+};
+
+// One line of small print under a caption: date · place · author
+const formatPhotoDetails = (photo: PhotoMeta): string => {
+    return [photo.takenAt, photo.location, photo.author && `by ${photo.author}`].filter(Boolean).join(' · ');
+};
+
+// Move one photo to a new index, shifting the ones in between
+const movePhoto = (photos: PhotoData[], from: number, to: number): PhotoData[] => {
+    const result = [...photos];
+    const [moved] = result.splice(from, 1);
+    result.splice(to, 0, moved);
+    return result;
+};
+
+// Slot count limits - the tree layout shrinks photos as the count grows
+const DEFAULT_SLOT_COUNT = 24;
+const MAX_SLOT_COUNT = 120;
+const SLOT_COUNT_PRESETS = [24, 48, 72, 100];
+
+// Append empty slots, numbering them after the highest existing slot index
+const addEmptySlots = (photos: PhotoData[], amount: number): PhotoData[] => {
+    const used = photos.map(p => Number(/^slot-(\d+)$/.exec(p.id)?.[1] ?? -1));
+    const start = Math.max(-1, ...used) + 1;
+    const count = Math.max(0, Math.min(amount, MAX_SLOT_COUNT - photos.length));
+    return [...photos, ...Array.from({ length: count }).map((_, i) => createMockPhoto(start + i))];
+};
+
+// Grow, or shrink by dropping trailing EMPTY slots only - photos are never removed
+const resizeSlots = (photos: PhotoData[], target: number): PhotoData[] => {
+    if (target >= photos.length) return addEmptySlots(photos, target - photos.length);
+    const result = [...photos];
+    while (result.length > target && result[result.length - 1].isEmpty) result.pop();
+    return result;
+};
+
 const TREE_COLORS = [
     '#064e3b', // Deep Green (Default)
     '#FFD700', // Golden Sparkles
@@ -92,15 +125,40 @@ const Ground = () => (
 );
 
 // -- Gesture Legend Component --
-const GestureLegend: React.FC<{ activeGesture: GestureType; visible: boolean }> = ({ activeGesture, visible }) => {
+const GESTURE_OPTIONS: { type: PoseGesture; icon: string; label: string }[] = [
+    { type: 'Open_Palm', icon: '✋', label: '张开手掌 / Open Palm' },
+    { type: 'Closed_Fist', icon: '✊', label: '握拳 / Fist' },
+    { type: 'Victory', icon: '✌️', label: '剪刀手 / Victory' },
+    { type: 'Thumb_Up', icon: '👍', label: '点赞 / Thumb Up' },
+    { type: 'Thumb_Down', icon: '👎', label: '倒赞 / Thumb Down' },
+    { type: 'Pointing_Up', icon: '☝️', label: '食指向上 / Pointing Up' },
+    { type: 'ILoveYou', icon: '🤟', label: '爱你 / I Love You' },
+];
+
+const BODY_TRIGGER_OPTIONS: { type: BodyTrigger; detector: BodyDetector; icon: string; label: string }[] = [
+    { type: 'Arms_Up', detector: 'pose', icon: '🙌', label: '举起双臂 / Both Arms Up' },
+    { type: 'Smile', detector: 'face', icon: '😄', label: '微笑 / Smile' },
+];
+
+const GESTURE_ACTION_OPTIONS: { id: GestureAction; label: string }[] = [
+    { id: 'none', label: '无 / None' },
+    { id: 'explode', label: '散开 (按住) / Explode (hold)' },
+    { id: 'disco', label: '旋转变色 (按住) / Disco (hold)' },
+    { id: 'sparkle', label: '闪光 / Sparkle Burst' },
+    { id: 'focusRandom', label: '随机照片 / Random Photo' },
+    { id: 'toggleAlbum', label: '相册模式 / Toggle Album' },
+    { id: 'nextColor', label: '下一个颜色 / Next Color' },
+    { id: 'nextShape', label: '下一个造型 / Next Shape' },
+    { id: 'startRecording', label: '录制视频 / Record Video' },
+    { id: 'toggleMusic', label: '播放/暂停音乐 / Play/Pause Music' },
+];
+
+const GestureLegend: React.FC<{ activeGesture: GestureTrigger | 'None'; mapping: GestureMapping; bodyTriggers: BodyTriggerSettings; visible: boolean }> = ({ activeGesture, mapping, bodyTriggers, visible }) => {
     if (!visible) return null;
     
-    // Order: Palm -> Victory -> Fist
-    const items: { type: GestureType; icon: string; color: string }[] = [
-        { type: 'Open_Palm', icon: '✋', color: 'text-yellow-400' },
-        { type: 'Victory', icon: '✌️', color: 'text-pink-400' },
-        { type: 'Closed_Fist', icon: '✊', color: 'text-cyan-400' },
-    ];
+    // Only poses that do something
+    const items = [...GESTURE_OPTIONS, ...BODY_TRIGGER_OPTIONS.filter(item => bodyTriggers[item.detector])]
+        .filter(item => mapping[item.type] !== 'none');
 
     return (
         <div className="absolute top-6 left-1/2 -translate-x-1/2 z-30 flex gap-6 animate-in fade-in slide-in-from-top-4 duration-700 pointer-events-none">
@@ -215,7 +273,7 @@ const PolaroidFocus: React.FC<PolaroidFocusProps> = ({ photo, onClose, onReplace
                         <meshStandardMaterial map={texture} roughness={0.9} />
                     </mesh>
                     
-                    <Image key={`${photo.url}-${photo.version}`} url={photo.url} position={[0, 0.5, 0.01]} scale={[4.5, 4.5]} toneMapped={false} />
+                    <MediaPlane key={`${photo.url}-${photo.version}`} url={photo.url} mediaType={photo.mediaType} prominent position={[0, 0.5, 0.01]} size={[4.5, 4.5]} focalPoint={displayFocalPoint(photo)} />
                     
                     {/* Shine */}
                     <mesh position={[0, 0.5, 0.02]}>
@@ -223,12 +281,22 @@ const PolaroidFocus: React.FC<PolaroidFocusProps> = ({ photo, onClose, onReplace
                         <meshPhysicalMaterial transparent opacity={0.15} roughness={0} clearcoat={1} />
                     </mesh>
 
+                    {/* Handwritten caption under the picture */}
+                    {(photo.caption || formatPhotoDetails(photo)) && (
+                        <Html transform position={[0, -2.8, 0.06]} pointerEvents="none">
+                            <div className="w-[180px] text-center text-slate-800 select-none">
+                                {photo.caption && <div className="text-[15px] leading-tight font-handwriting-cn break-words">{photo.caption}</div>}
+                                <div className="text-[9px] mt-1 font-handwriting-en text-slate-600">{formatPhotoDetails(photo)}</div>
+                            </div>
+                        </Html>
+                    )}
+
                     {/* Hidden input */}
                     <Html style={{ display: 'none' }}>
                          <input 
                                 ref={fileInputRef}
                                 type="file" 
-                                accept="image/*" 
+                                accept="image/*,video/*,.heic,.heif" 
                                 onChange={handleFileChange}
                             />
                     </Html>
@@ -276,40 +344,425 @@ const GuideOverlay: React.FC<{ type: 'scroll' | 'diagonal' | 'click' | 'doubleCl
 };
 
 // -- Gesture Manager --
+// Camera distance range for hand zoom (the camera orbits the origin)
+const MIN_CAMERA_DISTANCE = 12;
+const MAX_CAMERA_DISTANCE = 80;
+// Seconds between detections, adapted to the measured render frame time
+const MIN_DETECTION_INTERVAL = 1 / 15;
+const MAX_DETECTION_INTERVAL = 0.5;
+
 const GestureManager: React.FC<{
     videoRef: React.RefObject<HTMLVideoElement>;
     isCameraReady: boolean;
-    onGesture: (gesture: GestureType, x: number) => void;
-}> = ({ videoRef, isCameraReady, onGesture }) => {
+    zoomEnabled: boolean;
+    pointerEnabled: boolean; // The hand pointer owns Pointing_Up while it is on
+    gesturesEnabled: boolean; // Off while calibrating, so poses don't trigger actions
+    enterScores: GestureCalibration['enterScores'];
+    frameRef: React.MutableRefObject<HandFrame | null>; // Latest hands, for the hand pointer and preview
+    zoomingRef: React.MutableRefObject<boolean>; // Hands are zooming, so the pointer stays off
+    onGestureEvent: (event: GestureEvent) => void;
+}> = ({ videoRef, isCameraReady, zoomEnabled, pointerEnabled, gesturesEnabled, enterScores, frameRef, zoomingRef, onGestureEvent }) => {
     
+    const { camera } = useThree();
+    const tracker = useMemo(() => createGestureTracker(), []);
+    useEffect(() => tracker.setEnterScores(enterScores), [tracker, enterScores]);
+    // A held pose ends right away when gestures are switched off
+    useEffect(() => {
+        if (!gesturesEnabled) tracker.reset(performance.now()).forEach(onGestureEvent);
+    }, [tracker, gesturesEnabled, onGestureEvent]);
     const lastUpdate = useRef(0);
+    const isDetecting = useRef(false);
+    const detectionInterval = useRef(0.1);
+    const frameTime = useRef(1 / 60); // Smoothed render frame time
+    // Zoom is relative: the measure (hand gap / pinch) when it started vs now
+    const zoomStart = useRef<{ kind: 'twoHands' | 'pinch'; measure: number; distance: number } | null>(null);
+    const targetDistance = useRef<number | null>(null);
+
+    const handleHands = (result: HandFrame | null) => {
+        frameRef.current = result;
+        const zoom = zoomEnabled && result ? readZoomGesture(result, zoomStart.current?.kind === 'pinch') : null;
+        zoomingRef.current = !!zoom;
+
+        if (!zoom) {
+            zoomStart.current = null;
+            targetDistance.current = null;
+        } else if (zoomStart.current?.kind !== zoom.kind) {
+            zoomStart.current = { kind: zoom.kind, measure: zoom.measure, distance: camera.position.length() };
+        } else {
+            // Hands apart / pinch opening -> closer
+            const start = zoomStart.current;
+            targetDistance.current = THREE.MathUtils.clamp(start.distance * start.measure / zoom.measure, MIN_CAMERA_DISTANCE, MAX_CAMERA_DISTANCE);
+        }
 
-    useFrame(({ clock }) => {
-        if (!isCameraReady || !videoRef.current) return;
+        // Zooming hands shouldn't also trigger their poses' actions, nor a hand moving the pointer
+        const pointing = pointerEnabled && result?.hands.length === 1 && result.gesture === 'Pointing_Up';
+        tracker.update(zoom || pointing || !gesturesEnabled ? null : handReading(result), performance.now()).forEach(onGestureEvent);
+    };
+
+    useFrame(({ clock }, delta) => {
+        // Ease toward the requested distance every frame; detection runs far less often
+        if (targetDistance.current !== null) {
+            const distance = camera.position.length();
+            camera.position.setLength(THREE.MathUtils.lerp(distance, targetDistance.current, Math.min(1, delta * 6)));
+        }
+        frameTime.current += (delta - frameTime.current) * 0.05;
+
+        // One frame in flight at a time
+        if (!isCameraReady || !videoRef.current || isDetecting.current) return;
         
         const now = clock.elapsedTime;
-        if (now - lastUpdate.current < 0.1) return; 
+        if (now - lastUpdate.current < detectionInterval.current) return; 
         
         lastUpdate.current = now;
 
-        const result = detectHands(videoRef.current);
-        if (result) {
-            onGesture(result.gesture, result.x);
-        } else {
-            onGesture('None', 0.5);
+        // Back off while rendering drops below ~40fps, speed up again when there's headroom
+        if (frameTime.current > 1 / 40) {
+            detectionInterval.current = Math.min(MAX_DETECTION_INTERVAL, detectionInterval.current * 1.25);
+        } else if (frameTime.current < 1 / 55) {
+            detectionInterval.current = Math.max(MIN_DETECTION_INTERVAL, detectionInterval.current * 0.9);
+        }
+
+        isDetecting.current = true;
+        const startedAt = performance.now();
+        detectHands(videoRef.current).then(result => {
+            isDetecting.current = false;
+            // Never ask faster than the model answers
+            const roundTrip = (performance.now() - startedAt) / 1000;
+            detectionInterval.current = Math.min(MAX_DETECTION_INTERVAL, Math.max(detectionInterval.current, roundTrip * 1.5));
+            handleHands(result);
+        });
+    });
+    return null;
+}
+
+// -- Body Trigger Manager --
+// Pose and face models are heavier than hand recognition and share its worker,
+// so they only look a few times a second
+const BODY_DETECTION_INTERVAL = 0.25;
+
+const BodyTriggerManager: React.FC<{
+    videoRef: React.RefObject<HTMLVideoElement>;
+    isCameraReady: boolean;
+    enabled: BodyTriggerSettings;
+    gesturesEnabled: boolean;
+    onGestureEvent: (event: GestureEvent) => void;
+}> = ({ videoRef, isCameraReady, enabled, gesturesEnabled, onGestureEvent }) => {
+    // One tracker per detector, so arms up and a smile can be active together
+    const trackers = useMemo(() => ({
+        pose: createTriggerTracker({ Arms_Up: BODY_TRIGGER_THRESHOLDS.Arms_Up }),
+        face: createTriggerTracker({ Smile: BODY_TRIGGER_THRESHOLDS.Smile })
+    }), []);
+    // End a running trigger right away when its detector (or gestures) is switched off
+    useEffect(() => {
+        const now = performance.now();
+        if (!gesturesEnabled || !enabled.pose) trackers.pose.reset(now).forEach(onGestureEvent);
+        if (!gesturesEnabled || !enabled.face) trackers.face.reset(now).forEach(onGestureEvent);
+    }, [trackers, gesturesEnabled, enabled.pose, enabled.face, onGestureEvent]);
+    const lastUpdate = useRef(0);
+    const isDetecting = useRef(false);
+    const detectionInterval = useRef(BODY_DETECTION_INTERVAL);
+
+    const handleReadings = (readings: BodyReadings) => {
+        const time = performance.now();
+        trackers.pose.update(readings.pose, time).forEach(onGestureEvent);
+        trackers.face.update(readings.face, time).forEach(onGestureEvent);
+    };
+
+    useFrame(({ clock }) => {
+        // One frame in flight at a time
+        if (!isCameraReady || !videoRef.current || isDetecting.current) return;
+
+        const now = clock.elapsedTime;
+        if (now - lastUpdate.current < detectionInterval.current) return;
+        lastUpdate.current = now;
+
+        // Switched-off detectors read as nobody in view
+        if (!gesturesEnabled || !(enabled.pose || enabled.face)) {
+            handleReadings({ pose: null, face: null });
+            return;
         }
+        isDetecting.current = true;
+        const startedAt = performance.now();
+        detectBodyTriggers(videoRef.current, enabled).then(readings => {
+            isDetecting.current = false;
+            // Slow down when the models (sharing the worker with hands) can't keep up
+            const roundTrip = (performance.now() - startedAt) / 1000;
+            detectionInterval.current = Math.max(BODY_DETECTION_INTERVAL, roundTrip * 2);
+            handleReadings(readings);
+        });
     });
     return null;
 }
 
+// -- Hand Pointer --
+// The index fingertip drives an air cursor: it raycasts into the tree, highlights the
+// Polaroid under it and opens it on an "OK" pinch or after resting on it.
+const DWELL_SECONDS = 1.5;
+const POINTER_MARGIN = 0.15; // Camera edge that maps off-screen, so corners stay reachable
+
+const HandPointer: React.FC<{
+    frameRef: React.MutableRefObject<HandFrame | null>;
+    zoomingRef: React.MutableRefObject<boolean>;
+    enabled: boolean;
+    cursorRef: React.RefObject<HTMLDivElement>;
+    onHover: (photoId: string | null) => void;
+    onSelect: (photoId: string) => void;
+}> = ({ frameRef, zoomingRef, enabled, cursorRef, onHover, onSelect }) => {
+    const { camera, scene, size } = useThree();
+    const raycaster = useMemo(() => new THREE.Raycaster(), []);
+    const pointer = useRef(new THREE.Vector2());
+    const targets = useRef<{ objects: THREE.Object3D[]; refreshedAt: number }>({ objects: [], refreshedAt: -Infinity });
+    const hovered = useRef<string | null>(null);
+    const dwell = useRef(0);
+    const wasPinching = useRef(false);
+
+    const setHovered = (photoId: string | null) => {
+        if (hovered.current === photoId) return;
+        hovered.current = photoId;
+        dwell.current = 0;
+        onHover(photoId);
+    };
+
+    useFrame(({ clock }, delta) => {
+        const cursor = cursorRef.current;
+        const frame = frameRef.current;
+        // One hand pointing (or pinching), not zooming or holding another pose
+        const hand = enabled && frame && frame.hands.length === 1 && (frame.gesture === 'None' || frame.gesture === 'Pointing_Up') && !zoomingRef.current
+            ? frame.hands[0] : null;
+
+        if (!hand) {
+            if (cursor) cursor.style.opacity = '0';
+            setHovered(null);
+            wasPinching.current = false;
+            return;
+        }
+
+        // Fingertip -> normalized device coordinates, smoothed against landmark jitter
+        const tip = hand.landmarks[INDEX_TIP];
+        const u = THREE.MathUtils.clamp((tip.x - POINTER_MARGIN) / (1 - 2 * POINTER_MARGIN), 0, 1);
+        const v = THREE.MathUtils.clamp((tip.y - POINTER_MARGIN) / (1 - 2 * POINTER_MARGIN), 0, 1);
+        pointer.current.lerp(new THREE.Vector2(u * 2 - 1, 1 - v * 2), Math.min(1, delta * 12));
+
+        // Only Polaroids are hit-tested; the list is refreshed twice a second instead of walking the scene every frame
+        if (clock.elapsedTime - targets.current.refreshedAt > 0.5) {
+            const objects: THREE.Object3D[] = [];
+            scene.traverse(object => { if (object.userData.photoId) objects.push(object); });
+            targets.current = { objects, refreshedAt: clock.elapsedTime };
+        }
+        raycaster.setFromCamera(pointer.current, camera);
+        const hit = raycaster.intersectObjects(targets.current.objects, true)[0];
+        let photoId: string | null = null;
+        for (let object: THREE.Object3D | null = hit?.object ?? null; object && !photoId; object = object.parent) {
+            photoId = object.userData.photoId ?? null;
+        }
+        setHovered(photoId);
+
+        const pinching = isPinching(hand);
+        const pinched = pinching && !wasPinching.current;
+        wasPinching.current = pinching;
+        if (photoId) dwell.current += delta;
+
+        if (photoId && (pinched || dwell.current >= DWELL_SECONDS)) {
+            setHovered(null);
+            onSelect(photoId);
+        }
+
+        if (cursor) {
+            const progress = Math.min(1, dwell.current / DWELL_SECONDS) * 100;
+            cursor.style.opacity = '1';
+            cursor.style.transform = `translate(${(pointer.current.x + 1) / 2 * size.width}px, ${(1 - pointer.current.y) / 2 * size.height}px)`;
+            cursor.style.background = `conic-gradient(rgba(250, 204, 21, 0.8) ${progress}%, rgba(255, 255, 255, 0.1) 0)`;
+        }
+    });
+
+    return null;
+};
+
+// -- Camera Preview --
+// Mirrored camera feed with the hand skeleton and what the model currently sees
+const CameraPreview: React.FC<{
+    videoRef: React.RefObject<HTMLVideoElement>;
+    frameRef: React.MutableRefObject<HandFrame | null>;
+    className?: string;
+}> = ({ videoRef, frameRef, className = '' }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const labelRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        let frameId = 0;
+        const draw = () => {
+            frameId = requestAnimationFrame(draw);
+            const canvas = canvasRef.current;
+            const video = videoRef.current;
+            const ctx = canvas?.getContext('2d');
+            if (!canvas || !ctx || !video || !video.videoWidth) return;
+            const { width, height } = canvas;
+
+            ctx.save();
+            ctx.translate(width, 0);
+            ctx.scale(-1, 1); // Selfie view, matching the mirrored landmarks
+            ctx.drawImage(video, 0, 0, width, height);
+            ctx.restore();
+
+            const frame = frameRef.current;
+            for (const hand of frame?.hands ?? []) {
+                ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+                ctx.lineWidth = 2;
+                ctx.beginPath();
+                for (const { start, end } of HAND_CONNECTIONS) {
+                    ctx.moveTo(hand.landmarks[start].x * width, hand.landmarks[start].y * height);
+                    ctx.lineTo(hand.landmarks[end].x * width, hand.landmarks[end].y * height);
+                }
+                ctx.stroke();
+                ctx.fillStyle = '#facc15';
+                for (const point of hand.landmarks) {
+                    ctx.beginPath();
+                    ctx.arc(point.x * width, point.y * height, 3, 0, Math.PI * 2);
+                    ctx.fill();
+                }
+            }
+
+            if (labelRef.current) {
+                labelRef.current.textContent = frame
+                    ? frame.hands.map(hand => `${GESTURE_OPTIONS.find(o => o.type === hand.gesture)?.icon ?? '✋'} ${hand.gesture} ${Math.round(hand.score * 100)}%`).join('  ')
+                    : '未检测到手 / No hand';
+            }
+        };
+        draw();
+        return () => cancelAnimationFrame(frameId);
+    }, [videoRef, frameRef]);
+
+    return (
+        <div className={`relative rounded-2xl overflow-hidden border border-white/20 bg-black shadow-lg ${className}`}>
+            <canvas ref={canvasRef} width={320} height={240} className="block w-full" />
+            <div ref={labelRef} className="absolute bottom-0 inset-x-0 px-2 py-1 bg-black/60 text-xs text-white font-mono truncate" />
+        </div>
+    );
+};
+
+// -- Gesture Calibration --
+// Walks through every pose, records its scores and derives thresholds for this user
+const CALIBRATION_SECONDS = 3;
+const CALIBRATION_HAND_CONFIDENCE = 0.1;
+
+const GestureCalibrationModal: React.FC<{
+    videoRef: React.RefObject<HTMLVideoElement>;
+    frameRef: React.MutableRefObject<HandFrame | null>;
+    calibration: GestureCalibration;
+    onSave: (calibration: GestureCalibration) => void;
+    onClose: () => void;
+}> = ({ videoRef, frameRef, calibration, onSave, onClose }) => {
+    const [step, setStep] = useState(0); // Index into GESTURE_OPTIONS; past the end = summary
+    const [phase, setPhase] = useState<'ready' | 'recording' | 'failed'>('ready');
+    const [progress, setProgress] = useState(0);
+    const [enterScores, setEnterScores] = useState<Partial<Record<PoseGesture, number>>>({});
+    const handScores = useRef<number[]>([]);
+    const current = GESTURE_OPTIONS[step];
+
+    useEffect(() => {
+        if (phase !== 'recording' || !current) return;
+        const scores: number[] = [];
+        const startedAt = performance.now();
+        const timer = window.setInterval(() => {
+            const hand = frameRef.current?.hands[0];
+            if (hand) {
+                handScores.current.push(hand.handScore);
+                if (hand.gesture === current.type) scores.push(hand.score);
+            }
+            const elapsed = (performance.now() - startedAt) / 1000;
+            setProgress(Math.min(1, elapsed / CALIBRATION_SECONDS));
+            if (elapsed < CALIBRATION_SECONDS) return;
+
+            window.clearInterval(timer);
+            const enterScore = calibratedEnterScore(scores);
+            if (enterScore === undefined) {
+                setPhase('failed');
+                return;
+            }
+            setEnterScores(prev => ({ ...prev, [current.type]: enterScore }));
+            setStep(prev => prev + 1);
+            setPhase('ready');
+        }, 100);
+        return () => window.clearInterval(timer);
+    }, [phase, current, frameRef]);
+
+    const handleSkip = () => {
+        setStep(prev => prev + 1);
+        setPhase('ready');
+    };
+
+    const newHandConfidence = calibratedHandConfidence(handScores.current) ?? calibration.handConfidence;
+
+    return (
+        <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/90 backdrop-blur-md animate-in fade-in duration-300 p-4">
+            <div className="bg-gradient-to-br from-slate-900 to-slate-800 border border-white/20 p-6 rounded-3xl max-w-md w-full shadow-2xl relative font-sans">
+                <button onClick={onClose} className="absolute top-4 right-4 text-white/50 hover:text-white text-2xl transition-colors">✕</button>
+
+                <h2 className="text-2xl text-yellow-400 font-bold mb-4 text-center font-handwriting-cn">🎯 手势校准</h2>
+
+                <CameraPreview videoRef={videoRef} frameRef={frameRef} className="mb-4" />
+
+                {current ? (
+                    <div className="text-center space-y-4">
+                        <div className="text-xs text-white/50">{step + 1} / {GESTURE_OPTIONS.length}</div>
+                        <div className="text-5xl">{current.icon}</div>
+                        <div className="text-white font-bold">{current.label}</div>
+                        {phase === 'recording' ? (
+                            <>
+                                <div className="text-sm text-white/70">保持这个手势… / Hold the pose…</div>
+                                <div className="h-2 bg-white/10 rounded-full overflow-hidden">
+                                    <div className="h-full bg-yellow-400 rounded-full" style={{ width: `${progress * 100}%` }} />
+                                </div>
+                            </>
+                        ) : (
+                            <>
+                                {phase === 'failed' && (
+                                    <div className="text-sm text-red-300">没有识别到这个手势，请靠近一点或换个光线再试。<br />The pose wasn't recognized. Move closer or try better light.</div>
+                                )}
+                                <div className="grid grid-cols-2 gap-2">
+                                    <button onClick={handleSkip} className="py-3 bg-white/5 hover:bg-white/10 rounded-xl border border-white/10 text-sm text-white/80 transition-colors">跳过 / Skip</button>
+                                    <button onClick={() => { setProgress(0); setPhase('recording'); }} className="py-3 bg-yellow-500 hover:bg-yellow-400 rounded-xl text-sm text-black font-bold transition-colors">
+                                        {phase === 'failed' ? '重试 / Retry' : '开始 / Start'}
+                                    </button>
+                                </div>
+                            </>
+                        )}
+                    </div>
+                ) : (
+                    <div className="space-y-4">
+                        <div className="p-4 bg-white/5 rounded-xl border border-white/10 space-y-1 text-sm text-white/80">
+                            <div className="flex justify-between"><span>手部置信度 / Hand confidence</span><span className="font-mono">{calibration.handConfidence.toFixed(2)} → {newHandConfidence.toFixed(2)}</span></div>
+                            {GESTURE_OPTIONS.filter(o => enterScores[o.type] !== undefined).map(o => (
+                                <div key={o.type} className="flex justify-between"><span>{o.icon} {o.label}</span><span className="font-mono">{enterScores[o.type]!.toFixed(2)}</span></div>
+                            ))}
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                            <button onClick={() => onSave(DEFAULT_GESTURE_CALIBRATION)} className="py-3 bg-white/5 hover:bg-white/10 rounded-xl border border-white/10 text-sm text-white/80 transition-colors">↺ 恢复默认 / Defaults</button>
+                            <button
+                                onClick={() => onSave({ handConfidence: newHandConfidence, enterScores: { ...calibration.enterScores, ...enterScores } })}
+                                className="py-3 bg-yellow-500 hover:bg-yellow-400 rounded-xl text-sm text-black font-bold transition-colors"
+                            >
+                                保存 / Save
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
 // -- Album Item --
 const AlbumItem: React.FC<{ 
     photo: PhotoData; 
     onClick: () => void; 
     onDelete: (id: string) => void; 
-}> = ({ photo, onClick, onDelete }) => {
+    onEdit: (photo: PhotoData) => void;
+    onTogglePin: (id: string) => void;
+}> = ({ photo, onClick, onDelete, onEdit, onTogglePin }) => {
     const [offsetY, setOffsetY] = useState(0);
     const [isDeleting, setIsDeleting] = useState(false);
+    const focalPoint = displayFocalPoint(photo);
     const touchStartY = useRef<number | null>(null);
 
     const handleTouchStart = (e: React.TouchEvent) => {
@@ -384,13 +837,260 @@ const AlbumItem: React.FC<{
                              </div>
                          </div>
                     ) : (
-                        <img src={photo.url} className="w-full h-full object-cover pointer-events-none" alt="memory" />
+                        photo.mediaType === 'video' ? (
+                            <video src={photo.url} className="w-full h-full object-cover pointer-events-none" muted loop autoPlay playsInline />
+                        ) : (
+                            <img 
+                                src={photo.url} 
+                                className="w-full h-full object-cover pointer-events-none" 
+                                style={focalPoint && { objectPosition: `${focalPoint.x * 100}% ${focalPoint.y * 100}%` }}
+                                alt="memory" 
+                            />
+                        )
+                    )}
+                </div>
+                <div className="absolute bottom-2 left-0 w-full px-3 text-center text-slate-800">
+                    <div className={`text-sm truncate ${photo.caption ? 'font-handwriting-cn' : 'font-handwriting-en'}`}>
+                        {photo.isEmpty ? 'Empty Slot' : (photo.caption || 'Memory')}
+                    </div>
+                    {!photo.isEmpty && <div className="text-[10px] text-slate-500 truncate h-3 leading-3">{formatPhotoDetails(photo)}</div>}
+                </div>
+                </div>
+
+                {/* Pin / Edit Buttons */}
+                {!photo.isEmpty && (
+                    <button
+                        onClick={(e) => { e.stopPropagation(); onTogglePin(photo.id); }}
+                        className={`absolute top-2 right-12 w-9 h-9 rounded-full text-white text-sm backdrop-blur-sm border transition-colors ${photo.pinned ? 'bg-yellow-500/80 border-yellow-300' : 'bg-black/50 hover:bg-black/70 border-white/20'}`}
+                        title={photo.pinned ? '取消置顶 / Unpin' : '置顶到树顶 / Pin to Top of Tree'}
+                    >
+                        📌
+                    </button>
+                )}
+                {!photo.isEmpty && (
+                    <button
+                        onClick={(e) => { e.stopPropagation(); onEdit(photo); }}
+                        className="absolute top-2 right-2 w-9 h-9 rounded-full bg-black/50 hover:bg-black/70 text-white text-sm backdrop-blur-sm border border-white/20 transition-colors"
+                        title="编辑信息 / Edit Details"
+                    >
+                        ✏️
+                    </button>
+                )}
+        </div>
+    );
+};
+
+// -- Photo Details Modal --
+type PhotoDetails = Pick<PhotoMeta, PhotoDetailKey>;
+
+const PHOTO_DETAIL_FIELDS: { key: PhotoDetailKey; label: string; placeholder: string; type: string }[] = [
+    { key: 'caption', label: '标题 / Caption', placeholder: '第一次堆雪人', type: 'text' },
+    { key: 'takenAt', label: '日期 / Date Taken', placeholder: '', type: 'date' },
+    { key: 'location', label: '地点 / Location', placeholder: 'Grandma\'s house', type: 'text' },
+    { key: 'author', label: '拍摄者 / Author', placeholder: 'Dad', type: 'text' }
+];
+
+const PhotoDetailsModal: React.FC<{
+    photo: PhotoData;
+    onClose: () => void;
+    onSave: (id: string, details: PhotoDetails) => void;
+}> = ({ photo, onClose, onSave }) => {
+    const [details, setDetails] = useState<PhotoDetails>(() => {
+        const initial: PhotoDetails = {};
+        PHOTO_DETAIL_KEYS.forEach(key => { initial[key] = photo[key] ?? ''; });
+        return initial;
+    });
+
+    return (
+        <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/90 backdrop-blur-md animate-in fade-in duration-300 p-4">
+            <div className="bg-gradient-to-br from-slate-900 to-slate-800 border border-white/20 p-6 rounded-3xl max-w-md w-full shadow-2xl relative">
+                <button onClick={onClose} className="absolute top-4 right-4 text-white/50 hover:text-white text-2xl transition-colors">✕</button>
+
+                <h2 className="text-2xl text-yellow-400 font-bold mb-6 text-center font-handwriting-cn">📝 照片信息</h2>
+
+                <div className="flex gap-4 mb-6">
+                    {photo.mediaType === 'video' ? (
+                        <video src={photo.url} className="w-24 h-24 object-cover rounded-lg border-4 border-white shrink-0" muted loop autoPlay playsInline />
+                    ) : (
+                        <img src={photo.url} alt="memory" className="w-24 h-24 object-cover rounded-lg border-4 border-white shrink-0" />
                     )}
+                    <div className="space-y-3 flex-1">
+                        {PHOTO_DETAIL_FIELDS.slice(0, 2).map(field => (
+                            <div key={field.key} className="space-y-1">
+                                <label className="text-white/60 text-xs">{field.label}</label>
+                                <input
+                                    type={field.type}
+                                    value={details[field.key] ?? ''}
+                                    onChange={(e) => setDetails(prev => ({ ...prev, [field.key]: e.target.value }))}
+                                    maxLength={60}
+                                    placeholder={field.placeholder}
+                                    className="w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-yellow-400 transition-colors"
+                                />
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="space-y-3 mb-6">
+                    {PHOTO_DETAIL_FIELDS.slice(2).map(field => (
+                        <div key={field.key} className="space-y-1">
+                            <label className="text-white/60 text-xs">{field.label}</label>
+                            <input
+                                type={field.type}
+                                value={details[field.key] ?? ''}
+                                onChange={(e) => setDetails(prev => ({ ...prev, [field.key]: e.target.value }))}
+                                maxLength={40}
+                                placeholder={field.placeholder}
+                                className="w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-yellow-400 transition-colors"
+                            />
+                        </div>
+                    ))}
                 </div>
-                <div className="absolute bottom-4 left-0 w-full text-center text-slate-800 text-sm font-handwriting-en">
-                    {photo.isEmpty ? 'Empty Slot' : 'Memory'}
+
+                <button
+                    onClick={() => { onSave(photo.id, details); onClose(); }}
+                    className="w-full py-4 rounded-xl font-bold text-lg shadow-lg transition-all bg-gradient-to-r from-red-600 to-red-500 hover:from-red-500 hover:to-red-400 text-white active:scale-95"
+                >
+                    💾 保存 / Save
+                </button>
+            </div>
+        </div>
+    );
+};
+
+// -- Photo Editor Modal --
+const PHOTO_FILTER_OPTIONS: { id: PhotoFilter; label: string }[] = [
+    { id: 'none', label: '原图 / None' },
+    { id: 'warm', label: '暖色 / Warm' },
+    { id: 'vintage', label: '复古 / Vintage' },
+    { id: 'bw', label: '黑白 / B&W' }
+];
+
+const PhotoEditorModal: React.FC<{
+    photo: PhotoData;
+    loadOriginal: () => Promise<Blob | undefined>;
+    onSave: (edits: PhotoEdits) => Promise<void>;
+    onRevert: () => Promise<void>;
+    onClose: () => void;
+}> = ({ photo, loadOriginal, onSave, onRevert, onClose }) => {
+    const [edits, setEdits] = useState<PhotoEdits>(photo.edits ?? DEFAULT_PHOTO_EDITS);
+    const [image, setImage] = useState<HTMLImageElement | null>(null);
+    const [busy, setBusy] = useState(false);
+    const previewRef = useRef<HTMLCanvasElement>(null);
+
+    // Always edit from the untouched original
+    useEffect(() => {
+        let cancelled = false;
+        loadOriginal()
+            .then(blob => blob ? loadImage(blob) : Promise.reject(new Error("找不到原图。\nThe original photo is missing.")))
+            .then(img => { if (!cancelled) setImage(img); })
+            .catch(err => {
+                console.error("Failed to load original photo", err);
+                alert(err instanceof Error ? err.message : "图片无法读取。\nThe image could not be read.");
+                onClose();
+            });
+        return () => { cancelled = true; };
+    }, []);
+
+    // Live preview at low resolution with the same renderer used for saving
+    useEffect(() => {
+        const preview = previewRef.current;
+        if (!image || !preview) return;
+        const rendered = renderPhotoEdits(image, edits, 360);
+        preview.width = rendered.width;
+        preview.height = rendered.height;
+        preview.getContext('2d')?.drawImage(rendered, 0, 0);
+    }, [image, edits]);
+
+    const update = (patch: Partial<PhotoEdits>) => setEdits(prev => ({ ...prev, ...patch }));
+
+    const run = async (action: () => Promise<void>) => {
+        setBusy(true);
+        try {
+            await action();
+            onClose();
+        } catch (err) {
+            console.error("Photo edit failed", err);
+            alert(err instanceof Error ? err.message : "保存失败。\nSave failed.");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const sliders: { key: 'zoom' | 'offsetX' | 'offsetY' | 'brightness' | 'contrast'; label: string; min: number; max: number }[] = [
+        { key: 'zoom', label: '缩放 / Zoom', min: 1, max: 3 },
+        { key: 'offsetX', label: '左右 / Pan X', min: -1, max: 1 },
+        { key: 'offsetY', label: '上下 / Pan Y', min: -1, max: 1 },
+        { key: 'brightness', label: '亮度 / Brightness', min: 0.5, max: 1.5 },
+        { key: 'contrast', label: '对比度 / Contrast', min: 0.5, max: 1.5 }
+    ];
+
+    return (
+        <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/90 backdrop-blur-md animate-in fade-in duration-300 p-4">
+            <div className="bg-gradient-to-br from-slate-900 to-slate-800 border border-white/20 p-6 rounded-3xl max-w-md w-full max-h-full overflow-y-auto shadow-2xl relative no-scrollbar">
+                <button onClick={onClose} className="absolute top-4 right-4 text-white/50 hover:text-white text-2xl transition-colors">✕</button>
+
+                <h2 className="text-2xl text-yellow-400 font-bold mb-4 text-center font-handwriting-cn">🎨 编辑照片</h2>
+
+                <div className="mx-auto w-56 p-3 pb-10 bg-white shadow-lg mb-4">
+                    <div className="aspect-square bg-gray-200 flex items-center justify-center">
+                        {image ? <canvas ref={previewRef} className="w-full h-full" /> : <span className="text-gray-400 text-sm">加载中...</span>}
+                    </div>
                 </div>
+
+                <div className="space-y-4 font-sans">
+                    <button
+                        onClick={() => update({ rotation: ((edits.rotation + 90) % 360) as PhotoEdits['rotation'] })}
+                        className="w-full py-2 bg-white/5 hover:bg-white/10 rounded-xl border border-white/10 text-sm text-white transition-colors"
+                    >
+                        ↻ 旋转 90° / Rotate
+                    </button>
+
+                    {sliders.map(slider => (
+                        <div key={slider.key} className="space-y-1">
+                            <label className="text-white/60 text-xs">{slider.label}</label>
+                            <input
+                                type="range"
+                                min={slider.min}
+                                max={slider.max}
+                                step={0.01}
+                                value={edits[slider.key]}
+                                onChange={(e) => update({ [slider.key]: Number(e.target.value) })}
+                                className="w-full accent-yellow-400"
+                            />
+                        </div>
+                    ))}
+
+                    <div className="grid grid-cols-4 gap-2">
+                        {PHOTO_FILTER_OPTIONS.map(option => (
+                            <button
+                                key={option.id}
+                                onClick={() => update({ filter: option.id })}
+                                className={`py-2 rounded-xl border text-[10px] transition-colors ${edits.filter === option.id ? 'bg-white/20 border-yellow-400 text-white' : 'bg-white/5 border-white/10 text-white/70 hover:bg-white/10'}`}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3 pt-2">
+                        <button
+                            onClick={() => run(onRevert)}
+                            disabled={busy || !photo.edits}
+                            className="py-3 bg-white/10 hover:bg-white/20 disabled:opacity-40 text-white rounded-xl font-bold text-sm transition-colors"
+                        >
+                            ↩️ 还原 / Revert
+                        </button>
+                        <button
+                            onClick={() => run(() => isDefaultPhotoEdits(edits) ? onRevert() : onSave(edits))}
+                            disabled={busy || !image}
+                            className="py-3 bg-gradient-to-r from-red-600 to-red-500 hover:from-red-500 hover:to-red-400 disabled:opacity-40 text-white rounded-xl font-bold text-sm transition-all active:scale-95"
+                        >
+                            {busy ? '保存中...' : '💾 保存 / Save'}
+                        </button>
+                    </div>
                 </div>
+            </div>
         </div>
     );
 };
@@ -494,8 +1194,14 @@ const App: React.FC = () => {
   const [photos, setPhotos] = useState<PhotoData[]>([]);
   const [mode, setMode] = useState<AppMode>('tree');
   const [activePhoto, setActivePhoto] = useState<PhotoData | null>(null);
-  const [customTitle, setCustomTitle] = useState('Merry Christmas');
-  const [headerTitle, setHeaderTitle] = useState('My Christmas Tree');
+  const [customTitle, setCustomTitle] = useState(DEFAULT_APP_CONFIG.customTitle);
+  const [headerTitle, setHeaderTitle] = useState(DEFAULT_APP_CONFIG.headerTitle);
+
+  // Tree Projects (several named trees per device)
+  const [trees, setTrees] = useState<TreeProject[]>([]);
+  const [activeTreeId, setActiveTree] = useState<string | null>(null);
+  // Which tree the current state was hydrated from - persistence waits until it matches
+  const [loadedTreeId, setLoadedTreeId] = useState<string | null>(null);
   
   // Specific upload target
   const [targetPhotoId, setTargetPhotoId] = useState<string | null>(null);
@@ -506,9 +1212,11 @@ const App: React.FC = () => {
   const [isTwinkling, setIsTwinkling] = useState(false);
   
   // Tree Config
-  const [treeColorIndex, setTreeColorIndex] = useState(0);
-  const [treeStyle, setTreeStyle] = useState<TreeStyle>('classic');
-  const [treeShape, setTreeShape] = useState<TreeShape>('tree');
+  const [treeColorIndex, setTreeColorIndex] = useState(DEFAULT_APP_CONFIG.treeColorIndex);
+  const [treeStyle, setTreeStyle] = useState<TreeStyle>(DEFAULT_APP_CONFIG.treeStyle);
+  const [treeShape, setTreeShape] = useState<TreeShape>(DEFAULT_APP_CONFIG.treeShape);
+  const [customShape, setCustomShape] = useState<CustomShape | undefined>(undefined); // Definition used when treeShape is 'custom'
+  const [customShapes, setCustomShapes] = useState<CustomShape[]>([]); // Imported shape library (shared by every tree)
 
   const [isRecording, setIsRecording] = useState(false);
   const [gestureX, setGestureX] = useState(0);
@@ -524,18 +1232,41 @@ const App: React.FC = () => {
   // Menu State
   const [menuOpen, setMenuOpen] = useState(false);
 
+  // Storage Quota State
+  const [storageStatus, setStorageStatus] = useState<StorageStatus | null>(null);
+  const hasSweptStorage = useRef(false);
+
   // Guide State for Video
   const [guideType, setGuideType] = useState<'scroll' | 'diagonal' | 'click' | 'doubleClick' | null>(null);
 
   // Share State
   const [showShareModal, setShowShareModal] = useState(false);
   const [postcardUrl, setPostcardUrl] = useState<string | null>(null);
+  const [editingPhoto, setEditingPhoto] = useState<PhotoData | null>(null);
+  const [isEditingPhoto, setIsEditingPhoto] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<{ done: number; total: number } | null>(null);
+  const uploadAbortRef = useRef<AbortController | null>(null);
+  // Latest photos and tree for uploads that finish after other edits or a tree switch
+  const photosRef = useRef(photos);
+  photosRef.current = photos;
+  const activeTreeIdRef = useRef(activeTreeId);
+  activeTreeIdRef.current = activeTreeId;
+  const [albumDrag, setAlbumDrag] = useState<{ from: number; over: number } | null>(null);
 
   // Gesture State
   const videoRef = useRef<HTMLVideoElement>(null);
   const [isCameraReady, setIsCameraReady] = useState(false);
-  const lastColorChange = useRef(0);
-  const [lastGesture, setLastGesture] = useState<GestureType>('None');
+  const [activeGesture, setActiveGesture] = useState<GestureTrigger | 'None'>('None');
+  const handFrameRef = useRef<HandFrame | null>(null);
+  const handZoomingRef = useRef(false);
+  const handCursorRef = useRef<HTMLDivElement>(null);
+  const [pointerPhotoId, setPointerPhotoId] = useState<string | null>(null);
+  const [gestureCalibration, setGestureCalibration] = useState<GestureCalibration>(DEFAULT_GESTURE_CALIBRATION);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [showCameraPreview, setShowCameraPreview] = useState(false);
+  const [gestureIssue, setGestureIssue] = useState<'model' | 'camera' | null>(null);
+  const [gestureMapping, setGestureMapping] = useState<GestureMapping>(DEFAULT_GESTURE_MAPPING);
+  const [bodyTriggers, setBodyTriggers] = useState<BodyTriggerSettings>(DEFAULT_BODY_TRIGGERS);
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const audioRef = useRef<HTMLAudioElement>(null);
@@ -543,9 +1274,13 @@ const App: React.FC = () => {
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const recordedChunks = useRef<Blob[]>([]);
 
-  const scrollAccumulator = useRef(0);
-  const scrollTimeout = useRef<number | null>(null);
-  const touchStartY = useRef<number | null>(null);
+  // Input sources, translated into actions by services/input.ts
+  const wheelInput = useMemo(() => createWheelInput(), []);
+  const swipeInput = useMemo(() => createSwipeInput(), []);
+  const gestureInput = useMemo(() => createGestureInput(), []);
+  const gamepadInput = useMemo(() => createGamepadInput(), []);
+  const twinkleHeld = useRef(false); // A held disco gesture keeps the twinkle on
+  const sparkleTimeout = useRef<number | null>(null);
 
   // Hint State
   const [colorHintVisible, setColorHintVisible] = useState(false);
@@ -560,72 +1295,120 @@ const App: React.FC = () => {
     setIsMobile(window.innerWidth < 768);
   }, []);
 
-  // Load Persisted Data (Hydration)
+  // Load Tree Projects
   useEffect(() => {
-    const loadState = async () => {
+    const loadTrees = async () => {
         try {
-            // 1. Load Config
-            const config = await getSettings('appConfig');
-            if (config) {
-                if (config.treeColorIndex !== undefined) setTreeColorIndex(config.treeColorIndex);
-                if (config.treeStyle) setTreeStyle(config.treeStyle);
-                if (config.treeShape) setTreeShape(config.treeShape);
-                if (config.customTitle) setCustomTitle(config.customTitle);
-                if (config.headerTitle) setHeaderTitle(config.headerTitle);
-            }
+            setTrees(await listTrees());
+            setActiveTree(await getActiveTreeId());
+        } catch (e) {
+            console.error("Failed to load tree list", e);
+            setActiveTree('default');
+        }
+    };
+    loadTrees();
+  }, []);
+
+  // Load Gesture Mapping (shared by every tree on this device)
+  useEffect(() => {
+    getSettings('gestureMapping')
+        .then(raw => setGestureMapping(normalizeGestureMapping(raw)))
+        .catch(e => console.error("Failed to load gesture mapping", e));
+    getSettings('bodyTriggers')
+        .then(raw => setBodyTriggers(normalizeBodyTriggers(raw)))
+        .catch(e => console.error("Failed to load body trigger settings", e));
+  }, []);
+
+  // Load Custom Shape Library
+  useEffect(() => {
+    getSettings('customShapes')
+        .then(raw => setCustomShapes(normalizeCustomShapes(raw)))
+        .catch(e => console.error("Failed to load custom shapes", e));
+  }, []);
+
+  // Body trigger models are only fetched once the camera runs and the detector is switched on
+  useEffect(() => {
+    if (!isCameraReady) return;
+    if (bodyTriggers.pose) loadBodyDetector('pose');
+    if (bodyTriggers.face) loadBodyDetector('face');
+  }, [isCameraReady, bodyTriggers]);
+
+  // Load Persisted Data (Hydration) for the selected tree
+  useEffect(() => {
+    if (!activeTreeId) return;
+    let cancelled = false;
 
-            // 2. Load Photos
-            const photoMeta = await getSettings('photoMeta');
-            if (photoMeta && Array.isArray(photoMeta) && photoMeta.length > 0) {
-                const rehydratedPhotos = await Promise.all(photoMeta.map(async (p: any) => {
+    const loadState = async () => {
+        try {
+            // 1. Load Config (missing fields fall back to defaults so nothing leaks from the previous tree)
+            const config = normalizeAppConfig(await getSettings(treeSettingsKey(activeTreeId, 'appConfig')));
+
+            // 2. Load Photos + Audio - every Blob comes from ONE transaction
+            const photoMeta = normalizePhotoMeta(await getSettings(treeSettingsKey(activeTreeId, 'photoMeta')));
+            const filledPhotos = photoMeta.filter(p => !p.isEmpty);
+            // Edited photos show their edited render; the original is only read when editing
+            const blobs = await getFiles([
+                ...filledPhotos.map(p => treeKey(activeTreeId, p.edits ? editedFileKey(p.id) : p.id)),
+                treeKey(activeTreeId, 'bg-music')
+            ]);
+            const audioBlob = blobs.pop();
+            const blobById = new Map(filledPhotos.map((p, i) => [p.id, blobs[i]]));
+
+            let loadedPhotos: PhotoData[];
+            if (photoMeta.length > 0) {
+                loadedPhotos = photoMeta.map(p => {
                     let url = 'data:image/gif;base64,R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7';
-                    if (!p.isEmpty) {
-                        const blob = await getFile(p.id);
-                        if (blob) {
-                            url = URL.createObjectURL(blob);
-                        }
+                    const blob = blobById.get(p.id);
+                    if (blob) {
+                        url = URL.createObjectURL(blob);
                     }
                     return { ...p, url }; 
-                }));
-                setPhotos(rehydratedPhotos);
+                });
             } else {
                  // Default Init
-                 const newPhotos = Array.from({ length: 24 }).map((_, i) => createMockPhoto(i));
-                 setPhotos(newPhotos);
+                 loadedPhotos = Array.from({ length: DEFAULT_SLOT_COUNT }).map((_, i) => createMockPhoto(i));
             }
 
-            // 3. Load Audio
-            const audioBlob = await getFile('bg-music');
-            if (audioBlob) {
-                setAudioUrl(URL.createObjectURL(audioBlob));
-            }
+            if (cancelled) return;
+            setTreeColorIndex(config.treeColorIndex % TREE_COLORS.length);
+            setTreeStyle(config.treeStyle);
+            setTreeShape(config.treeShape);
+            setCustomShape(config.customShape);
+            setCustomTitle(config.customTitle);
+            setHeaderTitle(config.headerTitle);
+            setPhotos(loadedPhotos);
+            setAudioUrl(audioBlob ? URL.createObjectURL(audioBlob) : null);
+            setLoadedTreeId(activeTreeId);
 
         } catch (e) {
             console.error("Failed to load saved state", e);
+            if (cancelled) return;
             // Fallback
-            const newPhotos = Array.from({ length: 24 }).map((_, i) => createMockPhoto(i));
+            const newPhotos = Array.from({ length: DEFAULT_SLOT_COUNT }).map((_, i) => createMockPhoto(i));
             setPhotos(newPhotos);
+            setLoadedTreeId(activeTreeId);
         }
     };
     loadState();
-  }, []);
+    return () => { cancelled = true; };
+  }, [activeTreeId]);
 
   // Persist Config Changes
   useEffect(() => {
-    saveSettings('appConfig', { treeColorIndex, treeStyle, treeShape, customTitle, headerTitle });
-  }, [treeColorIndex, treeStyle, treeShape, customTitle, headerTitle]);
+    if (!activeTreeId || loadedTreeId !== activeTreeId) return;
+    saveSettings(treeSettingsKey(activeTreeId, 'appConfig'), {
+        treeColorIndex, treeStyle, treeShape, customTitle, headerTitle,
+        ...(treeShape === 'custom' && customShape ? { customShape } : {})
+    });
+  }, [loadedTreeId, activeTreeId, treeColorIndex, treeStyle, treeShape, customShape, customTitle, headerTitle]);
 
   // Persist Photo Meta Changes (Debounced via useEffect is acceptable for metadata)
   useEffect(() => {
+    if (!activeTreeId || loadedTreeId !== activeTreeId) return;
     if (photos.length > 0) {
-        const photoMeta = photos.map(p => ({
-            id: p.id,
-            version: p.version,
-            isEmpty: p.isEmpty
-        }));
-        saveSettings('photoMeta', photoMeta);
+        saveSettings(treeSettingsKey(activeTreeId, 'photoMeta'), photos.map(toPhotoMeta));
     }
-  }, [photos]);
+  }, [loadedTreeId, activeTreeId, photos]);
 
   // Ghostly Hint Logic (Color Change)
   useEffect(() => {
@@ -683,35 +1466,97 @@ const App: React.FC = () => {
       return () => clearTimeout(timeout);
   }, []);
   
+  // Storage key for a photo/music file of the selected tree
+  const fileKey = useCallback((id: string) => treeKey(activeTreeId ?? DEFAULT_TREE_ID, id), [activeTreeId]);
+
+  // Refresh quota info whenever the settings menu opens
+  useEffect(() => {
+    if (menuOpen) getStorageStatus().then(setStorageStatus);
+  }, [menuOpen]);
+
+  // Sweep orphaned Blobs once per session, after the first tree has hydrated
+  useEffect(() => {
+    if (!loadedTreeId || hasSweptStorage.current) return;
+    hasSweptStorage.current = true;
+    const liveKeys = photos.flatMap(photoFileKeys).map(key => treeKey(loadedTreeId, key));
+    sweepOrphanedFiles(liveKeys).catch(e => console.warn("Orphan sweep failed", e));
+  }, [loadedTreeId, photos]);
+
+  const handleCleanStorage = async () => {
+      if (!activeTreeId) return;
+      try {
+          const liveKeys = [...photos.flatMap(photoFileKeys).map(fileKey), fileKey('bg-music')];
+          const { removed, bytes } = await sweepOrphanedFiles(liveKeys);
+          alert(removed > 0
+              ? `已清理 ${removed} 个无用文件，释放 ${formatBytes(bytes)}。\nRemoved ${removed} unused files (${formatBytes(bytes)}).`
+              : "没有需要清理的文件。\nNothing to clean up.");
+      } catch (e) {
+          console.error("Storage cleanup failed", e);
+      }
+      setStorageStatus(await getStorageStatus());
+  };
+
+  const handleRequestPersist = async () => {
+      const granted = await requestPersistentStorage();
+      if (!granted) alert("浏览器未授予持久存储权限。\nThe browser did not grant persistent storage.");
+      setStorageStatus(await getStorageStatus());
+  };
+
   // Derived state for empty slots
   const emptySlotsCount = useMemo(() => photos.filter(p => p.isEmpty).length, [photos]);
 
+  const handleSetSlotCount = (target: number) => {
+      const clamped = Math.max(1, Math.min(MAX_SLOT_COUNT, target));
+      const next = resizeSlots(photos, clamped);
+      if (next.length > clamped) {
+          alert(`只能移除末尾的空照片位，请先删除不需要的照片。\nOnly empty slots at the end can be removed. Delete photos first to shrink further.`);
+      }
+      if (next.length !== photos.length) setPhotos(next);
+  };
+
+  // Album always offers a free slot at the end, growing the tree as photos are added
   useEffect(() => {
-    const init = async () => {
-        const success = await initializeHandDetection();
-        if (success && videoRef.current) {
-             try {
-                 const stream = await navigator.mediaDevices.getUserMedia({ 
-                     video: { width: 320, height: 240, facingMode: 'user' } 
-                 });
-                 videoRef.current.srcObject = stream;
-                 videoRef.current.onloadeddata = () => {
-                    setIsCameraReady(true);
-                    videoRef.current?.play().catch(e => console.error("Video play failed", e));
-                 };
-             } catch (err) {
-                 console.warn("Camera access denied or failed", err);
-             }
-        }
-    };
-    init();
+    if (mode !== 'album' || !activeTreeId || loadedTreeId !== activeTreeId) return;
+    if (photos.length < MAX_SLOT_COUNT && !photos.some(p => p.isEmpty)) {
+        setPhotos(prev => addEmptySlots(prev, 1));
+    }
+  }, [mode, photos, loadedTreeId, activeTreeId]);
+
+  // Load the hand model, then open the camera. Failures are shown, the app still works by mouse/touch.
+  const startGestureControl = useCallback(async () => {
+    setGestureIssue(null);
+    let calibration = DEFAULT_GESTURE_CALIBRATION;
+    try {
+        calibration = normalizeGestureCalibration(await getSettings('gestureCalibration'));
+        setGestureCalibration(calibration);
+    } catch (e) {
+        console.error("Failed to load gesture calibration", e);
+    }
+    const success = await initializeHandDetection(calibration.handConfidence, () => setGestureIssue('model'));
+    if (!success) {
+        setGestureIssue('model');
+        return;
+    }
+    if (videoRef.current) {
+         try {
+             const stream = await navigator.mediaDevices.getUserMedia({ 
+                 video: { width: 320, height: 240, facingMode: 'user' } 
+             });
+             videoRef.current.srcObject = stream;
+             videoRef.current.onloadeddata = () => {
+                setIsCameraReady(true);
+                videoRef.current?.play().catch(e => console.error("Video play failed", e));
+             };
+         } catch (err) {
+             console.warn("Camera access denied or failed", err);
+             setGestureIssue('camera');
+         }
+    }
   }, []);
 
-  const handleDoubleClick = useCallback(() => {
-    if (mode === 'tree') {
-      setTreeColorIndex((prev) => (prev + 1) % TREE_COLORS.length);
-    }
-  }, [mode]);
+  useEffect(() => {
+    startGestureControl();
+  }, [startGestureControl]);
 
   // Audio Playback & Context Initialization
   useEffect(() => {
@@ -786,161 +1631,174 @@ const App: React.FC = () => {
     }
   }, [audioUrl]);
 
-  const handleGesture = useCallback((gesture: GestureType, x: number) => {
-      // 1. Open Palm - Explode
-      if (gesture === 'Open_Palm') {
-          setIsExploded(true);
-      } else if (lastGesture === 'Open_Palm') {
-          setIsExploded(false);
-      }
-
-      // 2. Closed Fist - Rotate & Change Color (Disco Mode)
-      if (gesture === 'Closed_Fist') {
-          setIsTwinkling(true);
-          
-          const now = Date.now();
-          // Cycle colors rapidly while holding
-          if (now - lastColorChange.current > 300) {
-              setTreeColorIndex(prev => (prev + 1) % TREE_COLORS.length);
-              lastColorChange.current = now;
-          }
-      } else if (lastGesture === 'Closed_Fist') {
-          setIsTwinkling(false);
-      }
 
-      // 3. Victory - Random Photo
-      if (gesture === 'Victory' && lastGesture !== 'Victory') {
-          // Trigger only on rising edge (entry)
-          const validPhotos = photos.filter(p => !p.isEmpty);
-          if (validPhotos.length > 0) {
-              const randomPhoto = validPhotos[Math.floor(Math.random() * validPhotos.length)];
-              setActivePhoto(randomPhoto);
-              setMode('focus');
-          }
-      }
-      
-      // Rotation Logic
-      if (gesture === 'Closed_Fist') {
-          // Force fast spin
-          setGestureX(3.0);
-      } else if (gesture !== 'None') {
-          // Standard hand tracking rotation
-          const rotationSpeed = (x - 0.5) * 4;
-          setGestureX(rotationSpeed);
-      } else {
-          setGestureX(0);
-      }
 
-      setLastGesture(gesture);
-  }, [lastGesture, photos]);
-
-
-  const handleWheel = (e: React.WheelEvent) => {
-      if (mode !== 'tree') return;
-      
-      if (scrollTimeout.current) clearTimeout(scrollTimeout.current);
-
-      scrollAccumulator.current += e.deltaY;
-
-      scrollTimeout.current = window.setTimeout(() => {
-          scrollAccumulator.current = 0;
-      }, 200);
-
-      const threshold = 500; 
-
-      if (scrollAccumulator.current < -threshold && !isExploded) {
-          setIsExploded(true);
-          scrollAccumulator.current = 0;
-      } 
-      else if (scrollAccumulator.current > threshold && isExploded) {
-          setIsExploded(false);
-          scrollAccumulator.current = 0;
-      }
-  };
-
-  const handleTouchStart = (e: React.TouchEvent) => {
-      touchStartY.current = e.touches[0].clientY;
-  };
-
-  const handleTouchMove = (e: React.TouchEvent) => {
-      if (touchStartY.current === null || mode !== 'tree') return;
-      
-      const currentY = e.touches[0].clientY;
-      const diff = touchStartY.current - currentY; 
-      
-      const swipeThreshold = 150; 
-
-      if (diff > swipeThreshold && !isExploded) {
-          setIsExploded(true);
-          touchStartY.current = null;
-      } 
-      else if (diff < -swipeThreshold && isExploded) {
-          setIsExploded(false);
-          touchStartY.current = null;
-      }
-  };
-
-  // --- Main Upload Handlers ---
+  // --- Main Upload Handlers ---
 
   // Handle BULK upload from menu
   const handleBulkUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
-      // Get FRESH empty slots
-      const emptySlots = photos.filter(p => p.isEmpty);
-      const maxAllowed = emptySlots.length;
       let files = Array.from(e.target.files as FileList);
 
       if (files.length === 0) return;
 
+      const uploadTreeId = activeTreeId;
+
+      // Grow the tree with new empty slots when the free ones run out
+      const freeSlots = photos.filter(p => p.isEmpty).length;
+      const slotsToAdd = Math.max(0, files.length - freeSlots);
+      const withSlots = addEmptySlots(photos, slotsToAdd);
+      const maxAllowed = withSlots.filter(p => p.isEmpty).length;
+
       if (maxAllowed === 0) {
-           alert("没有空余的照片位了！\nNo empty slots available!");
+           alert(`照片位已达上限 (${MAX_SLOT_COUNT} 张)！\nThe tree is full (${MAX_SLOT_COUNT} photos max)!`);
+           e.target.value = '';
            return;
       }
 
       if (files.length > maxAllowed) {
-           alert(`您选择了 ${files.length} 张照片，但当前只有 ${maxAllowed} 个空位。\n为了保持流畅，系统将只导入前 ${maxAllowed} 张。\n\nYou selected ${files.length} photos, but there are only ${maxAllowed} empty slots.\nOnly the first ${maxAllowed} will be imported.`);
+           alert(`您选择了 ${files.length} 张照片，但最多还能放 ${maxAllowed} 张 (上限 ${MAX_SLOT_COUNT} 张)。\n系统将只导入前 ${maxAllowed} 张。\n\nYou selected ${files.length} photos, but only ${maxAllowed} more fit (${MAX_SLOT_COUNT} max).\nOnly the first ${maxAllowed} will be imported.`);
            files = files.slice(0, maxAllowed);
       }
 
-      // 1. Process files and compress them before saving
-      let fileIndex = 0;
-      const photosClone = [...photos];
-      
-      for (let i = 0; i < photosClone.length; i++) {
-          if (photosClone[i].isEmpty && fileIndex < files.length) {
-              const file = files[fileIndex];
-              
+      // Warn before filling up the browser's storage quota (original sizes are an upper bound)
+      const totalBytes = files.reduce((sum, f) => sum + f.size, 0);
+      const { fits, available } = await checkUploadQuota(totalBytes);
+      if (!fits && !confirm(`这些照片约 ${formatBytes(totalBytes)}，但剩余存储空间只有 ${formatBytes(available)}，部分照片可能无法保存。\n是否继续？\n\nThese photos are about ${formatBytes(totalBytes)} but only ${formatBytes(available)} of storage is left. Some may fail to save.\nContinue anyway?`)) {
+           e.target.value = '';
+           return;
+      }
+
+      // 1. Check videos and animated images, compress photos in the worker pool, then save everything in one transaction
+      const controller = new AbortController();
+      uploadAbortRef.current = controller;
+      setUploadProgress({ done: 0, total: files.length });
+      const skipped: SkippedFile[] = [];
+      const prepared: ({ blob: Blob } & Pick<PhotoMeta, 'mediaType' | 'takenAt' | 'hash' | 'focalPoint'>)[] = [];
+      try {
+          const results: CompressionResult[] = files.map(() => ({ status: 'cancelled' }));
+          // An unreadable file is left to the image pipeline, which reports it
+          const mediaTypes = await Promise.all(files.map(file => detectMediaType(file).catch(() => undefined)));
+
+          const imageIndexes = files.flatMap((_, f) => mediaTypes[f] ? [] : [f]);
+          const originalCount = files.length - imageIndexes.length;
+          let originalsDone = 0;
+          for (let f = 0; f < files.length && !controller.signal.aborted; f++) {
+              const mediaType = mediaTypes[f];
+              if (!mediaType) continue;
               try {
-                // Compress/Resize image before saving to DB or State
-                const compressedBlob = await compressImage(file);
-                await saveFile(photosClone[i].id, compressedBlob);
-                
-                // Update Local State URL with compressed version
-                photosClone[i] = {
-                    ...photosClone[i],
-                    url: URL.createObjectURL(compressedBlob),
-                    isEmpty: false,
-                    version: photosClone[i].version + 1
-                };
-              } catch(err) {
-                  console.error("Compression failed", err);
-                  // Fallback to original
-                  await saveFile(photosClone[i].id, file);
-                  photosClone[i] = {
-                      ...photosClone[i],
-                      url: URL.createObjectURL(file),
-                      isEmpty: false,
-                      version: photosClone[i].version + 1
-                  };
+                  if (mediaType === 'video') {
+                      results[f] = { status: 'done', blob: await prepareVideo(files[f]) };
+                  } else {
+                      const blob = await prepareAnimatedImage(files[f]);
+                      results[f] = { status: 'done', blob, hash: await hashBlob(blob), focalPoint: await detectFocalPoint(blob) };
+                  }
+              } catch (err) {
+                  results[f] = { status: 'failed', error: err instanceof Error ? err : new Error(String(err)) };
               }
-              
-              fileIndex++;
+              setUploadProgress({ done: ++originalsDone, total: files.length });
+          }
+
+          const imageResults = await compressImages(imageIndexes.map(f => files[f]), {
+              signal: controller.signal,
+              onProgress: (done) => setUploadProgress({ done: originalCount + done, total: files.length })
+          });
+          imageIndexes.forEach((f, i) => { results[f] = imageResults[i]; });
+
+          // Near-duplicates of photos already on the tree, or of an earlier photo in this batch
+          const knownHashes = photosRef.current.filter(p => !p.isEmpty && p.hash).map(p => p.hash!);
+          const duplicates = new Set<number>();
+          results.forEach((result, f) => {
+              if (result.status !== 'done' || !result.hash) return;
+              if (knownHashes.some(hash => isNearDuplicate(hash, result.hash!))) duplicates.add(f);
+              knownHashes.push(result.hash);
+          });
+          const skipDuplicates = duplicates.size > 0 && confirm(`有 ${duplicates.size} 张照片与已有照片重复。\n点击“确定”跳过它们，点击“取消”仍然导入。\n\n${duplicates.size} photo(s) look like duplicates of photos you already have.\nOK = skip them, Cancel = import anyway.`);
+
+          for (let f = 0; f < files.length; f++) {
+              const result = results[f];
+              if (result.status === 'cancelled') continue;
+              if (result.status === 'failed') {
+                  console.warn(`Skipped ${files[f].name}`, result.error);
+                  skipped.push({ name: files[f].name, reason: result.error.message });
+                  continue;
+              }
+              if (skipDuplicates && duplicates.has(f)) {
+                  skipped.push({ name: files[f].name, reason: "与已有照片重复。\nDuplicate of a photo you already have." });
+                  continue;
+              }
+
+              const mediaType = mediaTypes[f];
+              prepared.push({
+                  blob: result.blob,
+                  mediaType,
+                  hash: result.hash,
+                  focalPoint: result.focalPoint,
+                  // Read from the original - compression strips EXIF
+                  takenAt: mediaType === 'video' ? undefined : await readTakenAt(files[f])
+              });
           }
+      } catch (err) {
+          console.error("Upload failed", err);
+          alert("上传失败，请重试。\nThe upload failed. Please try again.");
+          return;
+      } finally {
+          uploadAbortRef.current = null;
+          setUploadProgress(null);
+          e.target.value = '';
       }
 
-      // 2. Update State Once (Using the mutated clone)
-      setPhotos(photosClone);
-      e.target.value = '';
+      // Another tree was opened during the upload - its photo list must not get these
+      const treeSwitched = () => activeTreeIdRef.current !== uploadTreeId;
+      const switchedMessage = "上传期间切换了圣诞树，照片未添加。\nThe tree was switched during the upload, so the photos were not added.";
+      if (treeSwitched()) {
+          alert(switchedMessage);
+          return;
+      }
+
+      // Photos may have been added or deleted meanwhile - fill the tree's current empty slots
+      const current = photosRef.current;
+      const slots = addEmptySlots(current, Math.max(0, prepared.length - current.filter(p => p.isEmpty).length));
+      const filled = new Map<string, PhotoData>();
+      const entries: { id: string; file: Blob }[] = [];
+      let slotIndex = 0;
+      for (const { blob, ...meta } of prepared) {
+          while (slotIndex < slots.length && !slots[slotIndex].isEmpty) slotIndex++;
+          if (slotIndex >= slots.length) break;
+          const slot = slots[slotIndex++];
+          entries.push({ id: fileKey(slot.id), file: blob });
+          filled.set(slot.id, { ...slot, url: URL.createObjectURL(blob), isEmpty: false, version: slot.version + 1, ...meta });
+      }
+
+      const release = holdFileKeys(entries.map(entry => entry.id));
+      try {
+          await saveFiles(entries);
+
+          // Switched while saving - the files are left for the orphan sweep
+          if (treeSwitched()) {
+              filled.forEach(photo => URL.revokeObjectURL(photo.url));
+              alert(switchedMessage);
+              return;
+          }
+
+          // 2. Update State Once - merge into the latest list, new slots go at the end
+          setPhotos(prev => [
+              ...prev.map(p => (p.isEmpty && filled.get(p.id)) || p),
+              ...[...filled.values()].filter(photo => !prev.some(p => p.id === photo.id))
+          ].slice(0, MAX_SLOT_COUNT));
+      } catch (err) {
+          console.error("Saving uploaded photos failed", err);
+          filled.forEach(photo => URL.revokeObjectURL(photo.url));
+          alert("照片保存失败，存储空间可能已满。\nThe photos could not be saved. Storage may be full.");
+          return;
+      } finally {
+          release();
+      }
+
+      if (skipped.length > 0) alert(formatSkippedReport(skipped));
+
+      // Photos are precious - ask the browser not to evict them
+      requestPersistentStorage();
     }
   };
 
@@ -948,72 +1806,376 @@ const App: React.FC = () => {
   const handleSingleSlotUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
       if (e.target.files && e.target.files[0] && targetPhotoId) {
           const file = e.target.files[0] as File;
+          e.target.value = '';
           
-          // Fixed: Explicitly type as Blob because compressImage returns Blob which is not assignable to inferred File type
-          let blob: Blob = file;
+          let media: Awaited<ReturnType<typeof prepareSlotMedia>>;
           try {
-              blob = await compressImage(file);
-          } catch(e) { console.warn("Compression failed, using original", e); }
+              media = await prepareSlotMedia(file);
+          } catch (err) {
+              console.warn("Photo rejected", err);
+              alert(formatSkippedReport([{ name: file.name, reason: err instanceof Error ? err.message : String(err) }]));
+              setTargetPhotoId(null);
+              return;
+          }
+          const { blob, ...meta } = media;
           
-          await saveFile(targetPhotoId, blob); // Save to DB
+          const hash = meta.hash;
+          const duplicate = hash ? photos.findIndex(p => !p.isEmpty && p.hash && isNearDuplicate(p.hash, hash)) : -1;
+          if (duplicate >= 0 && !confirm(`这张照片和第 ${duplicate + 1} 张看起来一样，仍然添加吗？\nThis looks like photo #${duplicate + 1}. Add it anyway?`)) {
+              setTargetPhotoId(null);
+              return;
+          }
 
-          const url = URL.createObjectURL(blob);
-          
-          setPhotos(prev => prev.map(p => {
-              if (p.id === targetPhotoId) {
-                  return { ...p, url, isEmpty: false, version: p.version + 1 };
-              }
-              return p;
-          }));
-          
-          setTargetPhotoId(null);
-          e.target.value = '';
+          const release = holdFileKeys([fileKey(targetPhotoId)]);
+          try {
+              await saveFile(fileKey(targetPhotoId), blob); // Save to DB
+
+              const url = URL.createObjectURL(blob);
+              
+              setPhotos(prev => prev.map(p => {
+                  if (p.id === targetPhotoId) {
+                      return { ...p, url, isEmpty: false, version: p.version + 1, ...meta };
+                  }
+                  return p;
+              }));
+          } catch (err) {
+              console.error("Saving photo failed", err);
+              alert(SAVE_FAILED_MESSAGE);
+          } finally {
+              release();
+              setTargetPhotoId(null);
+          }
       }
   }
 
   const handleReplacePhoto = async (id: string, file: File) => {
-      let blob: Blob = file;
+      let media: Awaited<ReturnType<typeof prepareSlotMedia>>;
       try {
-          blob = await compressImage(file);
-      } catch(e) { console.warn("Compression failed", e); }
+          media = await prepareSlotMedia(file);
+      } catch (err) {
+          console.warn("Photo rejected", err);
+          alert(formatSkippedReport([{ name: file.name, reason: err instanceof Error ? err.message : String(err) }]));
+          return;
+      }
+      const { blob, ...meta } = media;
 
-      await saveFile(id, blob); // Save to DB
+      try {
+          await saveFile(fileKey(id), blob); // Save to DB
+          await deleteFile(fileKey(editedFileKey(id))); // Edits belonged to the old picture
+      } catch (err) {
+          console.error("Saving photo failed", err);
+          alert(SAVE_FAILED_MESSAGE);
+          return;
+      }
       const newUrl = URL.createObjectURL(blob);
       
       setPhotos(prev => prev.map(p => 
-          p.id === id ? { ...p, url: newUrl, version: (p.version || 0) + 1, isEmpty: false } : p
+          p.id === id ? { ...p, url: newUrl, version: (p.version || 0) + 1, isEmpty: false, ...meta, edits: undefined } : p
       ));
       
       if (activePhoto && activePhoto.id === id) {
-          setActivePhoto({ ...activePhoto, url: newUrl, version: (activePhoto.version || 0) + 1, isEmpty: false });
+          setActivePhoto({ ...activePhoto, url: newUrl, version: (activePhoto.version || 0) + 1, isEmpty: false, ...meta, edits: undefined });
       }
   };
 
   const handleDeletePhoto = async (id: string) => {
-      await deleteFile(id); // Delete from DB
+      try {
+          await deleteFiles([fileKey(id), fileKey(editedFileKey(id))]); // Delete original and edited copy from DB
+      } catch (err) {
+          console.error("Deleting photo failed", err);
+          alert("照片删除失败，请重试。\nThe photo could not be deleted. Please try again.");
+          return;
+      }
       // Instead of removing from array (which shifts tree), reset to empty
-      setPhotos(prev => prev.map(p => 
-          p.id === id ? { ...p, url: 'data:image/gif;base64,R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', isEmpty: true, version: p.version + 1 } : p
-      ));
+      setPhotos(prev => prev.map(p => p.id === id ? toEmptySlot(p) : p));
       if (activePhoto && activePhoto.id === id) {
           setActivePhoto(null);
           setMode('tree');
       }
   };
 
+  // Find near-identical photos and keep one of each, carrying over details the others had
+  const handleMergeDuplicates = async () => {
+      const treeId = activeTreeId;
+      // Photos stored before hashes existed are hashed from their originals first
+      const missing = photos.filter(p => !p.isEmpty && !p.hash);
+      const hashes = new Map<string, string>();
+      if (missing.length > 0) {
+          try {
+              const blobs = await getFiles(missing.map(p => fileKey(p.id)));
+              for (let i = 0; i < missing.length; i++) {
+                  const blob = blobs[i];
+                  const hash = blob && await hashBlob(blob);
+                  if (hash) hashes.set(missing[i].id, hash);
+              }
+          } catch (err) {
+              console.error("Hashing photos failed", err);
+              alert("照片读取失败，请重试。\nThe photos could not be read. Please try again.");
+              return;
+          }
+          if (activeTreeIdRef.current !== treeId) return;
+      }
+      // Only fill in missing hashes, so edits made while hashing are kept
+      const fillHash = (p: PhotoData) => !p.isEmpty && !p.hash && hashes.has(p.id) ? { ...p, hash: hashes.get(p.id) } : p;
+      if (hashes.size > 0) setPhotos(prev => prev.map(fillHash));
+      const hashed = photosRef.current.map(fillHash);
+
+      const groups = findDuplicateGroups(hashed.filter(p => !p.isEmpty && p.hash).map(p => ({ id: p.id, hash: p.hash! })));
+      if (groups.length === 0) {
+          alert("没有发现重复照片。\nNo duplicate photos found.");
+          return;
+      }
+      const extra = groups.reduce((sum, group) => sum + group.length - 1, 0);
+      if (!confirm(`发现 ${groups.length} 组重复照片，共 ${extra} 张多余。\n合并后每组只保留第一张，其它照片的标题、日期等信息会合并过来。\n\nFound ${groups.length} group(s) with ${extra} extra photo(s).\nMerge them? The first of each group is kept along with the others' details.`)) return;
+
+      const byId = new Map(hashed.map(p => [p.id, p]));
+      const kept = new Map<string, PhotoData>();
+      const removed = new Set<string>();
+      for (const [keepId, ...dupeIds] of groups) {
+          let keep = byId.get(keepId)!;
+          for (const id of dupeIds) {
+              const dupe = byId.get(id)!;
+              PHOTO_DETAIL_KEYS.forEach(key => {
+                  if (!keep[key] && dupe[key]) keep = { ...keep, [key]: dupe[key] };
+              });
+              if (dupe.pinned) keep = { ...keep, pinned: true };
+              removed.add(id);
+          }
+          kept.set(keepId, keep);
+      }
+
+      try {
+          await deleteFiles([...removed].flatMap(id => [fileKey(id), fileKey(editedFileKey(id))]));
+      } catch (err) {
+          console.error("Deleting duplicates failed", err);
+          alert("重复照片删除失败，请重试。\nThe duplicate photos could not be deleted. Please try again.");
+          return;
+      }
+      setPhotos(prev => prev.map(p => removed.has(p.id) ? toEmptySlot(p) : kept.get(p.id) ?? p));
+  };
+
+  // Blank fields are removed rather than stored as empty strings
+  const handleUpdatePhotoDetails = (id: string, details: PhotoDetails) => {
+      const apply = <T extends PhotoData>(p: T): T => {
+          const next = { ...p };
+          PHOTO_DETAIL_KEYS.forEach(key => {
+              const value = details[key]?.trim();
+              if (value) next[key] = value;
+              else delete next[key];
+          });
+          return next;
+      };
+      setPhotos(prev => prev.map(p => p.id === id ? apply(p) : p));
+      if (activePhoto && activePhoto.id === id) setActivePhoto(apply(activePhoto));
+  };
+
+  // --- Photo Editor (original Blob is kept, the edited render is stored beside it) ---
+
+  const updatePhoto = (id: string, update: (p: PhotoData) => PhotoData) => {
+      setPhotos(prev => prev.map(p => p.id === id ? update(p) : p));
+      setActivePhoto(prev => prev && prev.id === id ? update(prev) : prev);
+  };
+
+  const handleSavePhotoEdits = async (id: string, edits: PhotoEdits) => {
+      const original = await getFile(fileKey(id));
+      if (!original) throw new Error("找不到原图。\nThe original photo is missing.");
+      const edited = await renderPhotoEditsToBlob(original, edits);
+      const release = holdFileKeys([fileKey(editedFileKey(id))]);
+      await saveFile(fileKey(editedFileKey(id)), edited);
+      const url = URL.createObjectURL(edited);
+      updatePhoto(id, p => ({ ...p, url, edits, version: p.version + 1 }));
+      release();
+  };
+
+  const handleRevertPhotoEdits = async (id: string) => {
+      const original = await getFile(fileKey(id));
+      await deleteFile(fileKey(editedFileKey(id)));
+      if (!original) return;
+      const url = URL.createObjectURL(original);
+      updatePhoto(id, p => {
+          const { edits, ...rest } = p;
+          return { ...rest, url, version: p.version + 1 };
+      });
+  };
+
+  const handleTogglePin = (id: string) => {
+      setPhotos(prev => prev.map(p => {
+          if (p.id !== id) return p;
+          const { pinned, ...rest } = p;
+          return pinned ? rest : { ...rest, pinned: true };
+      }));
+  };
+
+  // --- Album Drag & Drop (pointer events cover mouse and touch) ---
+
+  const handleAlbumDragStart = (e: React.PointerEvent, index: number) => {
+      e.stopPropagation();
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setAlbumDrag({ from: index, over: index });
+  };
+
+  const handleAlbumDragMove = (e: React.PointerEvent) => {
+      if (!albumDrag) return;
+      // Pointer is captured by the handle, so find the tile underneath by position
+      const target = document.elementFromPoint(e.clientX, e.clientY)?.closest('[data-album-index]');
+      const over = target ? Number(target.getAttribute('data-album-index')) : albumDrag.over;
+      if (over !== albumDrag.over) setAlbumDrag({ ...albumDrag, over });
+
+      // Auto-scroll near the edges of the album
+      const album = albumRef.current;
+      if (album) {
+          const rect = album.getBoundingClientRect();
+          if (e.clientY < rect.top + 60) album.scrollBy(0, -12);
+          else if (e.clientY > rect.bottom - 60) album.scrollBy(0, 12);
+      }
+  };
+
+  const handleAlbumDragEnd = () => {
+      if (albumDrag && albumDrag.from !== albumDrag.over) {
+          setPhotos(prev => movePhoto(prev, albumDrag.from, albumDrag.over));
+      }
+      setAlbumDrag(null);
+  };
+
   const handleAudioUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
       if (e.target.files && e.target.files[0]) {
           const file = e.target.files[0] as File;
-          if (audioUrl) URL.revokeObjectURL(audioUrl);
+          e.target.value = '';
           
-          await saveFile('bg-music', file); // Save to DB
+          try {
+              await saveFile(fileKey('bg-music'), file); // Save to DB
+          } catch (err) {
+              console.error("Saving music failed", err);
+              alert(SAVE_FAILED_MESSAGE);
+              return;
+          }
 
+          if (audioUrl) URL.revokeObjectURL(audioUrl);
           const url = URL.createObjectURL(file);
           setAudioUrl(url);
-          e.target.value = '';
       }
   }
 
+  // --- Tree Project Handlers ---
+
+  const switchTree = (id: string) => {
+      if (id === activeTreeId) return;
+      // Release the current tree's object URLs before the next one hydrates
+      photos.forEach(p => { if (p.url.startsWith('blob:')) URL.revokeObjectURL(p.url); });
+      if (audioUrl) URL.revokeObjectURL(audioUrl);
+      if (audioRef.current) {
+          audioRef.current.pause();
+          audioRef.current.removeAttribute('src');
+      }
+      setMode('tree');
+      setActivePhoto(null);
+      setPhotos([]);
+      setAudioUrl(null);
+      setActiveTree(id);
+      setActiveTreeId(id);
+  };
+
+  const handleCreateTree = async () => {
+      const name = prompt('新圣诞树的名字 / Name of the new tree:', `Tree ${trees.length + 1}`);
+      if (!name || !name.trim()) return;
+      const tree = await createTree(name.trim());
+      setTrees(await listTrees());
+      switchTree(tree.id);
+  };
+
+  const handleRenameTree = async () => {
+      const current = trees.find(t => t.id === activeTreeId);
+      if (!current) return;
+      const name = prompt('重命名 / Rename tree:', current.name);
+      if (!name || !name.trim()) return;
+      setTrees(await renameTree(current.id, name.trim()));
+  };
+
+  const handleDuplicateTree = async () => {
+      const current = trees.find(t => t.id === activeTreeId);
+      if (!current) return;
+      const tree = await duplicateTree(current.id, `${current.name} (copy)`);
+      setTrees(await listTrees());
+      switchTree(tree.id);
+  };
+
+  const handleDeleteTree = async () => {
+      const current = trees.find(t => t.id === activeTreeId);
+      if (!current) return;
+      if (trees.length <= 1) {
+          alert("至少需要保留一棵圣诞树！\nAt least one tree is required!");
+          return;
+      }
+      if (!confirm(`确定删除「${current.name}」及其所有照片和音乐吗？\nDelete "${current.name}" with all its photos and music?`)) return;
+      const remaining = await deleteTree(current.id);
+      setTrees(remaining);
+      switchTree(remaining[0].id);
+  };
+
+  // --- Archive Export / Import ---
+
+  const handleExportTree = async () => {
+      const current = trees.find(t => t.id === activeTreeId);
+      if (!current) return;
+      try {
+          const blob = await exportTreeArchive(current.id, current.name);
+          const url = URL.createObjectURL(blob);
+          const a = document.createElement('a');
+          a.href = url;
+          a.download = `${current.name}.zip`;
+          a.click();
+          setTimeout(() => URL.revokeObjectURL(url), 1000);
+      } catch (err) {
+          console.error("Export failed", err);
+          alert("导出失败，请重试。\nExport failed, please try again.");
+      }
+  };
+
+  const handleSelectCustomShape = (shape: CustomShape) => {
+      setCustomShape(shape);
+      setTreeShape('custom');
+  };
+
+  const saveCustomShapes = (shapes: CustomShape[]) => {
+      setCustomShapes(shapes);
+      saveSettings('customShapes', shapes).catch(e => console.error("Failed to save custom shapes", e));
+  };
+
+  const handleImportShape = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          const shape = await importShapeFile(file, file.name.replace(/\.json$/i, ''));
+          saveCustomShapes([...customShapes, shape]);
+          handleSelectCustomShape(shape);
+      } catch (err) {
+          console.error("Shape import failed", err);
+          alert(err instanceof Error ? err.message : "导入失败。\nImport failed.");
+      }
+  };
+
+  // Trees already using the shape keep their own copy
+  const handleDeleteCustomShape = (shape: CustomShape) => {
+      if (!confirm(`确定删除造型「${shape.name}」吗？\nDelete the shape "${shape.name}"?`)) return;
+      saveCustomShapes(customShapes.filter(s => s.id !== shape.id));
+  };
+
+  const handleImportTree = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          const tree = await importTreeArchive(file);
+          setTrees(await listTrees());
+          switchTree(tree.id);
+          setMenuOpen(false);
+      } catch (err) {
+          console.error("Import failed", err);
+          alert(err instanceof Error ? err.message : "导入失败。\nImport failed.");
+      }
+  };
+
   const handlePhotoClick = (photo: PhotoData) => {
     // FIX: Block manual interaction during recording to prevent accidental popups,
     // but allow programmatic changes (from generateVideo script) to happen.
@@ -1101,6 +2263,23 @@ const App: React.FC = () => {
     ctx.fillStyle = gradient;
     ctx.fillRect(0, height * 0.6, width, height * 0.4);
 
+    // 5b. Caption of the photo in focus (its HTML label isn't part of the WebGL snapshot)
+    if (mode === 'focus' && activePhoto) {
+        const details = formatPhotoDetails(activePhoto);
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        if (activePhoto.caption) {
+            ctx.font = '48px "Ma Shan Zheng", cursive';
+            ctx.fillStyle = 'rgba(255,255,255,0.95)';
+            ctx.fillText(activePhoto.caption, width / 2, height * 0.62, width * 0.9);
+        }
+        if (details) {
+            ctx.font = '28px "Pinyon Script", cursive';
+            ctx.fillStyle = 'rgba(255,255,255,0.7)';
+            ctx.fillText(details, width / 2, height * 0.66, width * 0.9);
+        }
+    }
+
     // 6. Draw "Merry Christmas" (Simulating the end effect)
     // Glow
     ctx.shadowColor = '#fbbf24';
@@ -1236,6 +2415,145 @@ const App: React.FC = () => {
 
   }, [isRecording, photos, audioUrl]);
 
+  // Every input source ends up here (see services/input.ts)
+  const runInputAction = useCallback((action: InputAction, source: InputSource) => {
+      // Scroll, swipe and double-click only act on the tree view, so the album can still scroll
+      if ((source === 'wheel' || source === 'touch' || source === 'mouse') && mode !== 'tree') return;
+      // Keys and pads shouldn't change the scene behind the editor, the calibration or a recording
+      if ((source === 'keyboard' || source === 'gamepad') && (isEditingPhoto || isCalibrating || isRecording)) return;
+
+      switch (action.type) {
+          case 'explode':
+              setIsExploded(true);
+              break;
+          case 'collapse':
+              setIsExploded(false);
+              break;
+          case 'toggleExplode':
+              setIsExploded(prev => !prev);
+              break;
+          case 'twinkle':
+              twinkleHeld.current = action.on;
+              // A running sparkle switches it off when it ends
+              if (action.on || !sparkleTimeout.current) setIsTwinkling(action.on);
+              break;
+          case 'sparkle':
+              setIsTwinkling(true);
+              if (sparkleTimeout.current) clearTimeout(sparkleTimeout.current);
+              sparkleTimeout.current = window.setTimeout(() => {
+                  sparkleTimeout.current = null;
+                  if (!twinkleHeld.current) setIsTwinkling(false);
+              }, 2000);
+              break;
+          case 'focusRandom': {
+              const validPhotos = photos.filter(p => !p.isEmpty);
+              if (validPhotos.length > 0) {
+                  const randomPhoto = validPhotos[Math.floor(Math.random() * validPhotos.length)];
+                  setActivePhoto(randomPhoto);
+                  setMode('focus');
+              }
+              break;
+          }
+          case 'toggleAlbum':
+              setMode(prev => prev === 'album' ? 'tree' : 'album');
+              break;
+          case 'nextColor':
+              setTreeColorIndex(prev => (prev + 1) % TREE_COLORS.length);
+              break;
+          case 'nextShape':
+              setTreeShape(prev => SHAPES[(SHAPES.findIndex(s => s.id === prev) + 1) % SHAPES.length].id);
+              break;
+          case 'startRecording':
+              generateVideo();
+              break;
+          case 'toggleMusic':
+              if (audioRef.current && audioUrl) {
+                  if (audioRef.current.paused) audioRef.current.play().catch(e => console.warn("Music playback failed", e));
+                  else audioRef.current.pause();
+              }
+              break;
+          case 'close':
+              if (mode === 'focus') {
+                  setMode('tree');
+                  setActivePhoto(null);
+              } else if (mode === 'album') {
+                  setMode('tree');
+              } else {
+                  setIsExploded(false);
+              }
+              break;
+          case 'rotate':
+              setGestureX(action.speed);
+              break;
+      }
+  }, [mode, photos, audioUrl, generateVideo, isEditingPhoto, isCalibrating, isRecording]);
+
+  const handleGestureEvent = useCallback((event: GestureEvent) => {
+      if (event.type === 'enter') setActiveGesture(event.gesture);
+      if (event.type === 'exit') setActiveGesture(prev => (prev === event.gesture ? 'None' : prev));
+      gestureInput.update(event, gestureMapping, Date.now()).forEach(action => runInputAction(action, 'gesture'));
+  }, [gestureInput, gestureMapping, runInputAction]);
+
+  const handleWheel = (e: React.WheelEvent) => {
+      wheelInput.update(e.deltaY, performance.now()).forEach(action => runInputAction(action, 'wheel'));
+  };
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+      swipeInput.start(e.touches[0].clientY);
+  };
+
+  const handleTouchMove = (e: React.TouchEvent) => {
+      swipeInput.move(e.touches[0].clientY).forEach(action => runInputAction(action, 'touch'));
+  };
+
+  const handleDoubleClick = () => {
+      runInputAction({ type: 'nextColor' }, 'mouse');
+  };
+
+  // Keyboard shortcuts
+  useEffect(() => {
+      const handleKey = (e: KeyboardEvent) => {
+          const actions = keyboardActions(e);
+          if (actions.length > 0) e.preventDefault(); // Space and arrows would scroll the page
+          actions.forEach(action => runInputAction(action, 'keyboard'));
+      };
+      window.addEventListener('keydown', handleKey);
+      window.addEventListener('keyup', handleKey);
+      return () => {
+          window.removeEventListener('keydown', handleKey);
+          window.removeEventListener('keyup', handleKey);
+      };
+  }, [runInputAction]);
+
+  // Gamepads are polled while one is connected
+  useEffect(() => watchGamepads(gamepadInput, action => runInputAction(action, 'gamepad')), [gamepadInput, runInputAction]);
+
+  // Let every hand through while calibrating so weak frames can be measured too
+  useEffect(() => {
+    setHandConfidence(isCalibrating ? CALIBRATION_HAND_CONFIDENCE : gestureCalibration.handConfidence);
+  }, [isCalibrating, gestureCalibration.handConfidence]);
+
+  const handleSaveGestureCalibration = (calibration: GestureCalibration) => {
+      setGestureCalibration(calibration);
+      setIsCalibrating(false);
+      saveSettings('gestureCalibration', calibration).catch(e => console.error("Failed to save gesture calibration", e));
+  };
+
+  const handleSaveGestureMapping = (mapping: GestureMapping) => {
+      setGestureMapping(mapping);
+      saveSettings('gestureMapping', mapping).catch(e => console.error("Failed to save gesture mapping", e));
+  };
+
+  const handleToggleBodyTrigger = async (detector: BodyDetector) => {
+      const next = { ...bodyTriggers, [detector]: !bodyTriggers[detector] };
+      if (next[detector] && !await loadBodyDetector(detector)) {
+          alert("识别模型加载失败，请检查网络后重试。\nCould not load the detection model. Check your connection and try again.");
+          return;
+      }
+      setBodyTriggers(next);
+      saveSettings('bodyTriggers', next).catch(e => console.error("Failed to save body trigger settings", e));
+  };
+
   return (
     <div 
         className="w-full h-screen bg-[#000] relative text-slate-100 font-handwriting-cn selection:bg-amber-500/30 overflow-hidden select-none"
@@ -1248,7 +2566,7 @@ const App: React.FC = () => {
       <video ref={videoRef} className="hidden" playsInline autoPlay muted />
       
       {/* Hidden input for single slot upload */}
-      <input ref={singleFileRef} type="file" accept="image/*" onChange={handleSingleSlotUpload} className="hidden" />
+      <input ref={singleFileRef} type="file" accept="image/*,video/*,.heic,.heif" onChange={handleSingleSlotUpload} className="hidden" />
 
       {/* BLOCKING OVERLAY REMOVED TO ALLOW CAMERA ROTATION */}
 
@@ -1286,7 +2604,7 @@ const App: React.FC = () => {
       )}
 
       {/* Quick Batch Upload Button - Visible if there are empty slots */}
-      {mode === 'tree' && !isRecording && photos.some(p => p.isEmpty) && (
+      {mode === 'tree' && !isRecording && !uploadProgress && photos.some(p => p.isEmpty) && (
         <div className="absolute bottom-12 left-1/2 -translate-x-1/2 z-40">
             <label className="flex flex-col items-center gap-2 cursor-pointer group hover:scale-105 transition-transform duration-300">
                 <div className="w-20 h-20 rounded-full bg-gradient-to-br from-green-500 to-emerald-700 border-4 border-white/30 shadow-[0_0_30px_rgba(34,197,94,0.6)] flex items-center justify-center animate-bounce">
@@ -1299,7 +2617,7 @@ const App: React.FC = () => {
                 <input 
                     type="file" 
                     multiple 
-                    accept="image/*" 
+                    accept="image/*,video/*,.heic,.heif" 
                     onChange={handleBulkUpload} 
                     className="hidden" 
                 />
@@ -1319,7 +2637,24 @@ const App: React.FC = () => {
         {/* Environment is critical for Pearl and Glass/Diamond materials */}
         <Environment preset="city" />
 
-        <GestureManager videoRef={videoRef} isCameraReady={isCameraReady} onGesture={handleGesture} />
+        <GestureManager videoRef={videoRef} isCameraReady={isCameraReady} zoomEnabled={mode === 'tree' && !isRecording && !isCalibrating}
+            pointerEnabled={mode === 'tree' && !isRecording && !isCalibrating}
+            gesturesEnabled={!isCalibrating}
+            enterScores={gestureCalibration.enterScores}
+            frameRef={handFrameRef} zoomingRef={handZoomingRef} onGestureEvent={handleGestureEvent} />
+        <BodyTriggerManager videoRef={videoRef} isCameraReady={isCameraReady} enabled={bodyTriggers}
+            gesturesEnabled={!isCalibrating} onGestureEvent={handleGestureEvent} />
+        <HandPointer
+            frameRef={handFrameRef}
+            zoomingRef={handZoomingRef}
+            enabled={isCameraReady && mode === 'tree' && !isRecording && !isCalibrating}
+            cursorRef={handCursorRef}
+            onHover={setPointerPhotoId}
+            onSelect={(id) => {
+                const photo = photos.find(p => p.id === id);
+                if (photo) handlePhotoClick(photo);
+            }}
+        />
         
         <Stars radius={100} depth={50} count={3000} factor={4} saturation={1} fade speed={1} />
         <ambientLight intensity={0.2} color="#4c1d95" />
@@ -1340,6 +2675,8 @@ const App: React.FC = () => {
                     foliageColor={TREE_COLORS[treeColorIndex]}
                     treeStyle={treeStyle}
                     shape={treeShape}
+                    customShape={customShape}
+                    highlightedPhotoId={pointerPhotoId}
                 />
                 
                 {/* 3D Header Title sitting above the tree (Raised to Y=15) - Updated to Cinzel Uppercase */}
@@ -1380,8 +2717,75 @@ const App: React.FC = () => {
         />
       </Canvas>
 
+      {/* Gesture Control Unavailable */}
+      {gestureIssue && !isRecording && (
+          <div className="absolute bottom-8 left-8 z-40 max-w-xs p-3 bg-black/60 backdrop-blur-md rounded-2xl border border-amber-400/40 shadow-lg font-sans flex items-start gap-3">
+              <span className="text-xl">{gestureIssue === 'model' ? '✋' : '📷'}</span>
+              <div className="flex-1 text-xs text-white/80 whitespace-pre-line">
+                  {gestureIssue === 'model'
+                      ? "手势识别模型无法加载，可以继续用鼠标或触摸操作。\nGesture model couldn't load - mouse and touch still work."
+                      : "无法打开摄像头，手势控制已关闭。\nCamera unavailable - gesture control is off."}
+              </div>
+              {gestureIssue === 'model' && (
+                  <button onClick={startGestureControl} className="px-2 py-1 bg-white/10 hover:bg-white/20 rounded-lg text-xs text-white transition-colors">重试 / Retry</button>
+              )}
+              <button onClick={() => setGestureIssue(null)} className="text-white/50 hover:text-white transition-colors">✕</button>
+          </div>
+      )}
+
+      {/* Camera Preview (picture-in-picture) */}
+      {showCameraPreview && isCameraReady && !isCalibrating && !isRecording && (
+          <CameraPreview videoRef={videoRef} frameRef={handFrameRef} className="absolute bottom-8 left-8 z-40 w-48 md:w-60 pointer-events-none" />
+      )}
+
+      {/* Gesture Calibration */}
+      {isCalibrating && (
+          <GestureCalibrationModal
+            videoRef={videoRef}
+            frameRef={handFrameRef}
+            calibration={gestureCalibration}
+            onSave={handleSaveGestureCalibration}
+            onClose={() => setIsCalibrating(false)}
+          />
+      )}
+
+      {/* Hand Pointer Cursor - the ring fills while resting on a photo */}
+      <div
+        ref={handCursorRef}
+        className="absolute top-0 left-0 z-40 w-10 h-10 -ml-5 -mt-5 rounded-full border-2 border-white/80 shadow-[0_0_15px_rgba(255,255,255,0.6)] pointer-events-none opacity-0 transition-opacity duration-200"
+      />
+
+      {/* Bulk Upload Progress */}
+      {uploadProgress && (
+        <div className="absolute top-24 left-1/2 -translate-x-1/2 z-50 w-72 p-4 bg-black/60 backdrop-blur-md rounded-2xl border border-white/20 shadow-lg font-sans">
+            <div className="flex justify-between text-sm text-white mb-2">
+                <span>📸 处理照片 / Processing</span>
+                <span className="font-mono">{uploadProgress.done} / {uploadProgress.total}</span>
+            </div>
+            <div className="h-2 bg-white/10 rounded-full overflow-hidden mb-3">
+                <div className="h-full bg-green-400 rounded-full transition-all duration-300" style={{ width: `${(uploadProgress.done / Math.max(1, uploadProgress.total)) * 100}%` }} />
+            </div>
+            <button
+                onClick={() => uploadAbortRef.current?.abort()}
+                className="w-full py-2 bg-red-500/30 hover:bg-red-500/50 rounded-xl border border-red-400/50 text-xs text-white transition-colors"
+            >
+                ✕ 取消 / Cancel (已完成的照片会保留)
+            </button>
+        </div>
+      )}
+
+      {/* Focus Mode Edit Button */}
+      {mode === 'focus' && activePhoto && !activePhoto.isEmpty && !activePhoto.mediaType && !isRecording && !isEditingPhoto && (
+        <button
+            onClick={() => setIsEditingPhoto(true)}
+            className="absolute bottom-12 left-1/2 -translate-x-1/2 z-40 px-6 py-3 bg-black/50 hover:bg-black/70 backdrop-blur-md rounded-full border border-white/20 text-white font-bold font-handwriting-cn shadow-lg transition-colors"
+        >
+            🎨 编辑照片 / Edit
+        </button>
+      )}
+
       {/* --- UI Controls --- */}
-      <GestureLegend activeGesture={lastGesture} visible={isCameraReady && !isRecording} />
+      <GestureLegend activeGesture={activeGesture} mapping={gestureMapping} bodyTriggers={bodyTriggers} visible={isCameraReady && !isRecording} />
 
       <div className={`absolute top-6 right-6 z-50 flex items-center gap-3 bg-red-500/20 px-4 py-2 rounded-full backdrop-blur border border-red-500/50 transition-opacity duration-300 ${isRecording ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
           <div className="w-3 h-3 bg-red-500 rounded-full animate-ping" />
@@ -1398,6 +2802,37 @@ const App: React.FC = () => {
                 <button onClick={() => setMenuOpen(false)} className="w-10 h-10 rounded-full bg-white/10 hover:bg-white/20 flex items-center justify-center transition-colors">✕</button>
             </div>
 
+            {/* Tree Switcher Section */}
+            <div className="space-y-3">
+                 <label className="text-sm text-emerald-300 font-bold tracking-wider uppercase">我的圣诞树 / My Trees</label>
+                 <div className="space-y-2">
+                    {trees.map(tree => (
+                        <button
+                            key={tree.id}
+                            onClick={() => switchTree(tree.id)}
+                            className={`w-full px-4 py-3 rounded-xl border text-left flex items-center gap-3 transition-all ${activeTreeId === tree.id ? 'bg-white/20 border-yellow-400 shadow-[0_0_15px_rgba(250,204,21,0.3)]' : 'bg-white/5 border-transparent hover:bg-white/10'}`}
+                        >
+                            <span className="text-xl">🎄</span>
+                            <span className="flex-1 text-white font-sans truncate">{tree.name}</span>
+                            {activeTreeId === tree.id && <span className="text-xs text-yellow-300 font-sans">当前</span>}
+                        </button>
+                    ))}
+                 </div>
+                 <div className="grid grid-cols-4 gap-2">
+                    <button onClick={handleCreateTree} className="py-2 bg-white/5 hover:bg-white/10 rounded-xl border border-white/10 text-xs text-white/80 font-sans transition-colors">➕ 新建</button>
+                    <button onClick={handleRenameTree} className="py-2 bg-white/5 hover:bg-white/10 rounded-xl border border-white/10 text-xs text-white/80 font-sans transition-colors">✏️ 重命名</button>
+                    <button onClick={handleDuplicateTree} className="py-2 bg-white/5 hover:bg-white/10 rounded-xl border border-white/10 text-xs text-white/80 font-sans transition-colors">📄 复制</button>
+                    <button onClick={handleDeleteTree} className="py-2 bg-white/5 hover:bg-red-500/30 rounded-xl border border-white/10 text-xs text-white/80 font-sans transition-colors">🗑️ 删除</button>
+                 </div>
+                 <div className="grid grid-cols-2 gap-2">
+                    <button onClick={handleExportTree} className="py-2 bg-white/5 hover:bg-white/10 rounded-xl border border-white/10 text-xs text-white/80 font-sans transition-colors">📦 导出存档 / Export</button>
+                    <label className="py-2 bg-white/5 hover:bg-white/10 rounded-xl border border-white/10 text-xs text-white/80 font-sans transition-colors text-center cursor-pointer">
+                        📂 导入存档 / Import
+                        <input type="file" accept=".zip,application/zip" onChange={handleImportTree} className="hidden" />
+                    </label>
+                 </div>
+            </div>
+
             {/* Header Title Section */}
             <div className="space-y-3">
                  <label className="text-sm text-yellow-300 font-bold tracking-wider uppercase">标题 / Title</label>
@@ -1442,6 +2877,60 @@ const App: React.FC = () => {
                             <span className="text-[10px] text-white/60 font-sans">{shape.label}</span>
                         </button>
                     ))}
+                    {[...PRESET_SHAPES, ...customShapes].map(shape => {
+                        const isPreset = PRESET_SHAPES.includes(shape);
+                        return (
+                            <div key={shape.id} className="relative group">
+                                <button
+                                    onClick={() => handleSelectCustomShape(shape)}
+                                    className={`w-full aspect-square rounded-xl flex flex-col items-center justify-center border transition-all duration-200 overflow-hidden ${treeShape === 'custom' && customShape?.id === shape.id ? 'bg-white/20 border-yellow-400 shadow-[0_0_15px_rgba(250,204,21,0.3)]' : 'bg-white/5 border-transparent hover:bg-white/10'}`}
+                                >
+                                    <span className="text-3xl mb-1 group-hover:scale-110 transition-transform">{shape.id === 'preset-star' ? '⭐' : shape.id === 'preset-heart' ? '❤️' : '✨'}</span>
+                                    <span className="text-[10px] text-white/60 font-sans truncate max-w-full px-1">{shape.name}</span>
+                                </button>
+                                {!isPreset && (
+                                    <button
+                                        onClick={() => handleDeleteCustomShape(shape)}
+                                        className="absolute -top-1 -right-1 w-5 h-5 rounded-full bg-black/70 border border-white/20 text-[10px] text-white/70 hover:bg-red-500/70 opacity-0 group-hover:opacity-100 transition-opacity"
+                                        title="删除 / Delete"
+                                    >
+                                        ✕
+                                    </button>
+                                )}
+                            </div>
+                        );
+                    })}
+                    <label className="aspect-square rounded-xl flex flex-col items-center justify-center border border-dashed border-white/20 bg-white/5 hover:bg-white/10 transition-colors cursor-pointer" title="导入造型 (JSON) / Import shape (JSON)">
+                        <span className="text-2xl mb-1">📥</span>
+                        <span className="text-[10px] text-white/60 font-sans">导入 / Import</span>
+                        <input type="file" accept=".json,application/json" onChange={handleImportShape} className="hidden" />
+                    </label>
+                </div>
+            </div>
+
+            {/* Photo Slots Section */}
+            <div className="space-y-3">
+                <label className="text-sm text-pink-300 font-bold tracking-wider uppercase">照片位 / Photo Slots</label>
+                <div className="p-4 bg-white/5 rounded-xl border border-white/10 space-y-3 font-sans">
+                    <div className="flex items-center justify-between">
+                        <button onClick={() => handleSetSlotCount(photos.length - 6)} className="w-10 h-10 bg-white/5 hover:bg-white/10 rounded-full border border-white/10 text-white text-xl">−</button>
+                        <div className="text-center">
+                            <div className="text-2xl font-bold text-white">{photos.length}</div>
+                            <div className="text-xs text-white/50">空位 {emptySlotsCount} / Empty</div>
+                        </div>
+                        <button onClick={() => handleSetSlotCount(photos.length + 6)} disabled={photos.length >= MAX_SLOT_COUNT} className="w-10 h-10 bg-white/5 hover:bg-white/10 disabled:opacity-40 rounded-full border border-white/10 text-white text-xl">+</button>
+                    </div>
+                    <div className="grid grid-cols-4 gap-2">
+                        {SLOT_COUNT_PRESETS.map(count => (
+                            <button
+                                key={count}
+                                onClick={() => handleSetSlotCount(count)}
+                                className={`py-2 rounded-xl border text-xs transition-colors ${photos.length === count ? 'bg-white/20 border-yellow-400 text-white' : 'bg-white/5 border-white/10 text-white/70 hover:bg-white/10'}`}
+                            >
+                                {count}
+                            </button>
+                        ))}
+                    </div>
                 </div>
             </div>
 
@@ -1463,6 +2952,121 @@ const App: React.FC = () => {
                 </div>
              </div>
 
+             {/* Gesture Section */}
+             <div className="space-y-3">
+                <label className="text-sm text-orange-300 font-bold tracking-wider uppercase">手势 / Gestures</label>
+                <div className="p-4 bg-white/5 rounded-xl border border-white/10 space-y-2 font-sans">
+                    {GESTURE_OPTIONS.map(item => (
+                        <div key={item.type} className="flex items-center gap-3">
+                            <span className="text-2xl w-8 text-center" title={item.label}>{item.icon}</span>
+                            <select
+                                value={gestureMapping[item.type]}
+                                onChange={e => handleSaveGestureMapping({ ...gestureMapping, [item.type]: e.target.value as GestureAction })}
+                                className="flex-1 bg-black/30 border border-white/20 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-yellow-400"
+                            >
+                                {GESTURE_ACTION_OPTIONS.map(option => (
+                                    <option key={option.id} value={option.id} className="bg-slate-900">{option.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                    ))}
+                    <div className="text-xs text-white/50 pt-2">👪 合影触发 (较耗性能) / Group triggers (slower devices may lag)</div>
+                    {BODY_TRIGGER_OPTIONS.map(item => (
+                        <div key={item.type} className="flex items-center gap-3">
+                            <span className="text-2xl w-8 text-center" title={item.label}>{item.icon}</span>
+                            <select
+                                value={gestureMapping[item.type]}
+                                onChange={e => handleSaveGestureMapping({ ...gestureMapping, [item.type]: e.target.value as GestureAction })}
+                                disabled={!bodyTriggers[item.detector]}
+                                className="flex-1 min-w-0 bg-black/30 border border-white/20 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-yellow-400 disabled:opacity-40"
+                            >
+                                {GESTURE_ACTION_OPTIONS.map(option => (
+                                    <option key={option.id} value={option.id} className="bg-slate-900">{option.label}</option>
+                                ))}
+                            </select>
+                            <button
+                                onClick={() => handleToggleBodyTrigger(item.detector)}
+                                title={item.label}
+                                className={`px-3 py-2 rounded-lg border text-xs transition-colors ${bodyTriggers[item.detector] ? 'bg-white/20 border-yellow-400 text-white' : 'bg-white/5 border-white/10 text-white/70 hover:bg-white/10'}`}
+                            >
+                                {bodyTriggers[item.detector] ? '开 / On' : '关 / Off'}
+                            </button>
+                        </div>
+                    ))}
+                    <div className="grid grid-cols-2 gap-2 pt-1">
+                        <button
+                            onClick={() => setShowCameraPreview(prev => !prev)}
+                            disabled={!isCameraReady}
+                            className={`py-2 rounded-xl border text-xs transition-colors disabled:opacity-40 ${showCameraPreview ? 'bg-white/20 border-yellow-400 text-white' : 'bg-white/5 border-white/10 text-white/70 hover:bg-white/10'}`}
+                        >
+                            📷 摄像头预览 / Preview
+                        </button>
+                        <button
+                            onClick={() => { setIsCalibrating(true); setMenuOpen(false); }}
+                            disabled={!isCameraReady}
+                            className="py-2 bg-white/5 hover:bg-white/10 disabled:opacity-40 rounded-xl border border-white/10 text-xs text-white/70 transition-colors"
+                        >
+                            🎯 校准 / Calibrate
+                        </button>
+                    </div>
+                    <div className="text-xs text-white/50 pt-1">🙌 双手分开/靠拢缩放，握拳时捏合拇指和食指微调 / Move both hands apart or together to zoom; pinch thumb and index with the other fingers folded to fine-tune.</div>
+                    <button
+                        onClick={() => handleSaveGestureMapping(DEFAULT_GESTURE_MAPPING)}
+                        className="w-full py-2 bg-white/5 hover:bg-white/10 rounded-xl border border-white/10 text-xs text-white/70 transition-colors"
+                    >
+                        ↺ 恢复默认 / Reset
+                    </button>
+                </div>
+             </div>
+
+             {/* Shortcuts Section */}
+             <div className="space-y-3">
+                <label className="text-sm text-teal-300 font-bold tracking-wider uppercase">快捷键 / Shortcuts</label>
+                <div className="p-4 bg-white/5 rounded-xl border border-white/10 space-y-1.5 font-sans">
+                    {KEYBOARD_SHORTCUTS.map(shortcut => (
+                        <div key={shortcut.label} className="flex items-center justify-between gap-3 text-xs text-white/70">
+                            <span>{shortcut.label}</span>
+                            <span className="flex gap-1">
+                                {shortcut.keys.map(key => (
+                                    <kbd key={key} className="px-2 py-0.5 bg-black/40 rounded border border-white/20 font-mono text-white">{keyLabel(key)}</kbd>
+                                ))}
+                            </span>
+                        </div>
+                    ))}
+                    <div className="text-xs text-white/50 pt-2">🎮 手柄: A 散开/收起, B 返回, X 颜色, Y 随机照片, LB 闪光, RB 造型, 摇杆旋转 / Gamepad: A explode, B back, X color, Y random photo, LB sparkle, RB shape, stick to spin</div>
+                </div>
+             </div>
+
+             {/* Storage Section */}
+             <div className="space-y-3">
+                <label className="text-sm text-sky-300 font-bold tracking-wider uppercase">存储空间 / Storage</label>
+                <div className="p-4 bg-white/5 rounded-xl border border-white/10 space-y-3 font-sans">
+                    {storageStatus ? (
+                        <>
+                            <div className="flex justify-between text-xs text-white/70">
+                                <span>已用 {formatBytes(storageStatus.usage)}</span>
+                                <span>剩余 {formatBytes(Math.max(0, storageStatus.quota - storageStatus.usage))}</span>
+                            </div>
+                            <div className="h-2 bg-black/40 rounded-full overflow-hidden">
+                                <div
+                                    className={`h-full rounded-full ${storageStatus.usage / storageStatus.quota > 0.8 ? 'bg-red-500' : 'bg-sky-400'}`}
+                                    style={{ width: `${Math.min(100, (storageStatus.usage / Math.max(1, storageStatus.quota)) * 100)}%` }}
+                                />
+                            </div>
+                            <div className="text-xs text-white/50">
+                                {storageStatus.persisted ? '🔒 持久存储已开启 / Persistent' : '⚠️ 浏览器可能在空间不足时清除数据 / May be evicted'}
+                            </div>
+                        </>
+                    ) : (
+                        <div className="text-xs text-white/50">无法获取存储信息 / Storage info unavailable</div>
+                    )}
+                    <div className="grid grid-cols-2 gap-2">
+                        <button onClick={handleRequestPersist} disabled={storageStatus?.persisted} className="py-2 bg-white/5 hover:bg-white/10 disabled:opacity-40 rounded-xl border border-white/10 text-xs text-white/80 transition-colors">🔒 持久存储</button>
+                        <button onClick={handleCleanStorage} className="py-2 bg-white/5 hover:bg-white/10 rounded-xl border border-white/10 text-xs text-white/80 transition-colors">🧹 清理无用文件</button>
+                    </div>
+                </div>
+             </div>
+
              {/* Action Buttons */}
              <div className="pt-6 border-t border-white/10 space-y-4">
                  <label className="text-sm text-gray-400 font-bold tracking-wider uppercase">操作 / Actions</label>
@@ -1519,6 +3123,27 @@ const App: React.FC = () => {
           />
       )}
 
+      {/* Photo Editor */}
+      {isEditingPhoto && mode === 'focus' && activePhoto && (
+          <PhotoEditorModal
+            key={activePhoto.id}
+            photo={activePhoto}
+            loadOriginal={() => getFile(fileKey(activePhoto.id))}
+            onSave={(edits) => handleSavePhotoEdits(activePhoto.id, edits)}
+            onRevert={() => handleRevertPhotoEdits(activePhoto.id)}
+            onClose={() => setIsEditingPhoto(false)}
+          />
+      )}
+
+      {/* Photo Details Modal */}
+      {editingPhoto && (
+          <PhotoDetailsModal
+            photo={editingPhoto}
+            onClose={() => setEditingPhoto(null)}
+            onSave={handleUpdatePhotoDetails}
+          />
+      )}
+
       {/* Settings Toggle Button - BOTTOM RIGHT */}
       {!menuOpen && !isRecording && (
         <button 
@@ -1537,23 +3162,49 @@ const App: React.FC = () => {
         <div className="absolute inset-0 z-40 bg-black/90 backdrop-blur-xl animate-in fade-in duration-300 flex flex-col">
             <div className="p-6 flex justify-between items-center bg-gradient-to-b from-black/50 to-transparent border-b border-white/10">
                 <h2 className="text-3xl text-yellow-400 font-handwriting-cn font-bold">🎄 圣诞回忆录</h2>
-                <button onClick={() => setMode('tree')} className="px-6 py-2 bg-white/10 hover:bg-white/20 rounded-full text-white transition-colors border border-white/10">
-                    返回
-                </button>
+                <div className="flex gap-3">
+                    <button onClick={handleMergeDuplicates} className="px-4 py-2 bg-white/10 hover:bg-white/20 rounded-full text-white text-sm transition-colors border border-white/10">
+                        🔍 合并重复 / Duplicates
+                    </button>
+                    <button onClick={() => setMode('tree')} className="px-6 py-2 bg-white/10 hover:bg-white/20 rounded-full text-white transition-colors border border-white/10">
+                        返回
+                    </button>
+                </div>
             </div>
             
             <div ref={albumRef} className="flex-1 overflow-y-auto p-6 grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6 content-start pb-24 no-scrollbar">
                 {photos.map((photo, index) => (
-                     <div key={photo.id} className="relative group">
+                     <div 
+                        key={photo.id} 
+                        data-album-index={index}
+                        className={`relative group transition-opacity ${albumDrag?.from === index ? 'opacity-40' : ''} ${albumDrag && albumDrag.over === index && albumDrag.from !== index ? 'ring-4 ring-yellow-400 rounded-lg' : ''}`}
+                     >
                         <div className="aspect-[3/4]">
                             <AlbumItem 
                                 photo={photo} 
-                                onClick={() => {}} 
+                                onClick={() => {
+                                    // Empty slots open the file picker, same as on the tree
+                                    if (photo.isEmpty) {
+                                        setTargetPhotoId(photo.id);
+                                        singleFileRef.current?.click();
+                                    }
+                                }} 
                                 onDelete={handleDeletePhoto}
+                                onEdit={setEditingPhoto}
+                                onTogglePin={handleTogglePin}
                             />
                         </div>
-                        <div className="absolute top-2 left-2 bg-black/50 px-2 py-1 rounded text-xs text-white/70 font-mono backdrop-blur-sm">
-                            #{index + 1}
+                        {/* Drag Handle */}
+                        <div 
+                            className="absolute top-2 left-2 bg-black/50 px-2 py-1 rounded text-xs text-white/70 font-mono backdrop-blur-sm cursor-grab active:cursor-grabbing select-none"
+                            style={{ touchAction: 'none' }}
+                            onPointerDown={(e) => handleAlbumDragStart(e, index)}
+                            onPointerMove={handleAlbumDragMove}
+                            onPointerUp={handleAlbumDragEnd}
+                            onPointerCancel={() => setAlbumDrag(null)}
+                            title="拖动排序 / Drag to Reorder"
+                        >
+                            ⠿ #{index + 1}{photo.pinned && ' 📌'}
                         </div>
                      </div>
                 ))}
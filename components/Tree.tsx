@@ -1,9 +1,12 @@
-import React, { useRef, useMemo, useEffect } from 'react';
+import React, { useRef, useMemo, useEffect, useState } from 'react';
 import { useFrame } from '@react-three/fiber';
-import { Image, Points, Sparkles, Float } from '@react-three/drei';
+import { Points, Sparkles, Float, useTexture } from '@react-three/drei';
 import * as THREE from 'three';
 import * as BufferGeometryUtils from 'three/examples/jsm/utils/BufferGeometryUtils.js';
-import { PhotoData, TreeStyle, TreeShape } from '../types';
+import { CustomShape, FocalPoint, MediaType, PhotoData, TreeStyle, TreeShape } from '../types';
+import { displayFocalPoint } from '../services/schema';
+import { loadAnimatedFrames, releaseAnimatedFrames } from '../services/animatedImage';
+import { ShapeSampler, createShapeSampler } from '../services/customShapes';
 
 interface TreeProps {
   photos: PhotoData[];
@@ -14,6 +17,8 @@ interface TreeProps {
   foliageColor?: string;
   treeStyle: TreeStyle;
   shape: TreeShape;
+  customShape?: CustomShape; // Drawn when shape is 'custom'
+  highlightedPhotoId?: string | null; // Under the hand pointer
 }
 
 // Hook to generate Polka Dot Texture for Frames or Empty Placeholders
@@ -929,15 +934,221 @@ const Flower = ({ color, position, scale, rotation }: { color: string, position:
 };
 
 // -- Polaroid Frame Component --
-const PolaroidFrame = ({ url, onClick, opacity = 1, texture, isEmpty }: { url: string, onClick: (e: any) => void, opacity?: number, texture: THREE.Texture, isEmpty: boolean }) => {
+// Crop a texture to cover a plane, keeping the focal point (e.g. faces) in view
+const applyCoverCrop = (t: THREE.Texture, mediaWidth: number, mediaHeight: number, size: [number, number], focalPoint?: FocalPoint) => {
+    const [width, height] = size;
+    const fx = focalPoint?.x ?? 0.5;
+    const fy = focalPoint?.y ?? 0.5;
+    const mediaAspect = mediaWidth / mediaHeight;
+    const planeAspect = width / height;
+    // Visible fraction of the image on each axis (cover fit)
+    const rx = mediaAspect > planeAspect ? planeAspect / mediaAspect : 1;
+    const ry = mediaAspect > planeAspect ? 1 : mediaAspect / planeAspect;
+    // Centre the window on the focal point, clamped inside the image (UV v runs bottom-up)
+    t.repeat.set(rx, ry);
+    t.offset.set(
+        THREE.MathUtils.clamp(fx - rx / 2, 0, 1 - rx),
+        THREE.MathUtils.clamp((1 - fy) - ry / 2, 0, 1 - ry)
+    );
+    t.colorSpace = THREE.SRGBColorSpace;
+};
+
+type MediaPlaneProps = { url: string, size: [number, number], focalPoint?: FocalPoint, position?: [number, number, number], opacity?: number };
+
+export const PhotoPlane = ({ url, size, focalPoint, position, opacity = 1 }: MediaPlaneProps) => {
+    const texture = useTexture(url);
+    const [width, height] = size;
+
+    // Clone per plane so each one gets its own repeat/offset (the image upload is shared)
+    const cropped = useMemo(() => {
+        const t = texture.clone();
+        const image = t.image as { width: number; height: number };
+        applyCoverCrop(t, image.width, image.height, [width, height], focalPoint);
+        t.needsUpdate = true;
+        return t;
+    }, [texture, width, height, focalPoint?.x, focalPoint?.y]);
+
+    useEffect(() => () => cropped.dispose(), [cropped]);
+
+    return (
+        <mesh position={position}>
+            <planeGeometry args={[width, height]} />
+            <meshBasicMaterial map={cropped} toneMapped={false} transparent opacity={opacity} />
+        </mesh>
+    );
+};
+
+// Looping <video> as a texture. Every caller gets its own element, so the tree copy
+// stays muted while the focus view plays with sound.
+const useLoopingVideoTexture = (url: string, muted: boolean): THREE.VideoTexture | null => {
+    const [texture, setTexture] = useState<THREE.VideoTexture | null>(null);
+
+    useEffect(() => {
+        const video = document.createElement('video');
+        video.src = url;
+        video.loop = true;
+        video.muted = muted;
+        video.playsInline = true;
+        const videoTexture = new THREE.VideoTexture(video);
+        video.addEventListener('loadedmetadata', () => setTexture(videoTexture), { once: true });
+        video.play().catch(() => {
+            // Autoplay with sound was blocked - play muted rather than not at all
+            video.muted = true;
+            video.play().catch(e => console.warn("Video playback failed", e));
+        });
+
+        return () => {
+            video.pause();
+            video.removeAttribute('src');
+            video.load();
+            videoTexture.dispose();
+            setTexture(null);
+        };
+    }, [url, muted]);
+
+    return texture;
+};
+
+export const VideoPlane = ({ url, size, focalPoint, position, opacity = 1, muted = true }: MediaPlaneProps & { muted?: boolean }) => {
+    const texture = useLoopingVideoTexture(url, muted);
+    const [width, height] = size;
+
+    useEffect(() => {
+        if (!texture) return;
+        const video = texture.image as HTMLVideoElement;
+        applyCoverCrop(texture, video.videoWidth, video.videoHeight, [width, height], focalPoint);
+    }, [texture, width, height, focalPoint?.x, focalPoint?.y]);
+
+    return (
+        <mesh position={position}>
+            <planeGeometry args={[width, height]} />
+            {texture ? (
+                <meshBasicMaterial map={texture} toneMapped={false} transparent opacity={opacity} />
+            ) : (
+                <meshBasicMaterial color="#111111" transparent opacity={opacity} />
+            )}
+        </mesh>
+    );
+};
+
+// Every animating ornament re-uploads its texture on frame changes, so only a few animate at once.
+// The rest show their first frame until a slot frees up.
+const MAX_ANIMATED_ORNAMENTS = 6;
+const animatingOwners = new Set<object>();
+
+// Decoded GIF/WebP frames drawn into a canvas texture. 'static' means the browser can't decode frames.
+const useAnimatedTexture = (url: string, alwaysAnimate: boolean) => {
+    const [state, setState] = useState<{ texture: THREE.CanvasTexture, width: number, height: number } | 'static' | null>(null);
+    const playback = useRef<{ draw: (index: number) => void, durations: number[], frame: number, elapsed: number } | null>(null);
+    const owner = useMemo(() => ({}), []);
+
+    useEffect(() => {
+        let cancelled = false;
+        let texture: THREE.CanvasTexture | null = null;
+        loadAnimatedFrames(url).then(decoded => {
+            if (cancelled) return;
+            if (!decoded || decoded.frames.length === 0) {
+                setState('static');
+                return;
+            }
+            const canvas = document.createElement('canvas');
+            canvas.width = decoded.width;
+            canvas.height = decoded.height;
+            const ctx = canvas.getContext('2d');
+            if (!ctx) {
+                setState('static');
+                return;
+            }
+            const draw = (index: number) => {
+                ctx.clearRect(0, 0, canvas.width, canvas.height);
+                ctx.drawImage(decoded.frames[index], 0, 0);
+            };
+            draw(0);
+            texture = new THREE.CanvasTexture(canvas);
+            playback.current = { draw, durations: decoded.durations, frame: 0, elapsed: 0 };
+            setState({ texture, width: decoded.width, height: decoded.height });
+        });
+
+        return () => {
+            cancelled = true;
+            playback.current = null;
+            animatingOwners.delete(owner);
+            texture?.dispose();
+            releaseAnimatedFrames(url);
+            setState(null);
+        };
+    }, [url, owner]);
+
+    useFrame((_, delta) => {
+        const p = playback.current;
+        if (!p || typeof state !== 'object' || !state || p.durations.length < 2) return;
+        if (!animatingOwners.has(owner)) {
+            if (!alwaysAnimate && animatingOwners.size >= MAX_ANIMATED_ORNAMENTS) return;
+            animatingOwners.add(owner);
+        }
+        p.elapsed += delta * 1000;
+        let frame = p.frame;
+        // Skip frames rather than slow down when rendering lags
+        while (p.elapsed >= p.durations[frame]) {
+            p.elapsed -= p.durations[frame];
+            frame = (frame + 1) % p.durations.length;
+        }
+        if (frame !== p.frame) {
+            p.frame = frame;
+            p.draw(frame);
+            state.texture.needsUpdate = true;
+        }
+    });
+
+    return state;
+};
+
+export const AnimatedPlane = ({ url, size, focalPoint, position, opacity = 1, alwaysAnimate = false }: MediaPlaneProps & { alwaysAnimate?: boolean }) => {
+    const animated = useAnimatedTexture(url, alwaysAnimate);
+    const [width, height] = size;
+
+    useEffect(() => {
+        if (!animated || animated === 'static') return;
+        applyCoverCrop(animated.texture, animated.width, animated.height, [width, height], focalPoint);
+    }, [animated, width, height, focalPoint?.x, focalPoint?.y]);
+
+    if (animated === 'static') return <PhotoPlane url={url} size={size} focalPoint={focalPoint} position={position} opacity={opacity} />;
+
+    return (
+        <mesh position={position}>
+            <planeGeometry args={[width, height]} />
+            {animated ? (
+                <meshBasicMaterial map={animated.texture} toneMapped={false} transparent opacity={opacity} />
+            ) : (
+                <meshBasicMaterial color="#111111" transparent opacity={opacity} />
+            )}
+        </mesh>
+    );
+};
+
+// Photo, animated image or looping video, whichever the slot holds.
+// `prominent` is for the focus view: sound on and never held back by the animation cap.
+export const MediaPlane = ({ mediaType = 'image', prominent = false, ...props }: MediaPlaneProps & { mediaType?: MediaType, prominent?: boolean }) => {
+    if (mediaType === 'video') return <VideoPlane {...props} muted={!prominent} />;
+    if (mediaType === 'animated') return <AnimatedPlane {...props} alwaysAnimate={prominent} />;
+    return <PhotoPlane {...props} />;
+};
+
+const PolaroidFrame = ({ url, onClick, opacity = 1, texture, isEmpty, focalPoint, mediaType, highlighted = false }: { url: string, onClick: (e: any) => void, opacity?: number, texture: THREE.Texture, isEmpty: boolean, focalPoint?: FocalPoint, mediaType?: MediaType, highlighted?: boolean }) => {
     return (
         <group onClick={onClick} onPointerOver={() => document.body.style.cursor = 'pointer'} onPointerOut={() => document.body.style.cursor = 'auto'}>
+            {highlighted && (
+                <mesh position={[0, -0.2, -0.04]}>
+                    <planeGeometry args={[1.7, 2.1]} />
+                    <meshBasicMaterial color="#fde047" toneMapped={false} transparent opacity={0.9 * opacity} />
+                </mesh>
+            )}
             <mesh position={[0, -0.2, -0.01]}>
                 <boxGeometry args={[1.4, 1.8, 0.05]} />
                 <meshStandardMaterial map={texture} roughness={0.8} transparent opacity={opacity} />
             </mesh>
             {!isEmpty && (
-                <Image key={url} url={url} position={[0, 0.1, 0.02]} scale={[1.2, 1.2]} toneMapped={false} transparent opacity={opacity} />
+                <MediaPlane key={url} url={url} mediaType={mediaType} position={[0, 0.1, 0.02]} size={[1.2, 1.2]} focalPoint={focalPoint} opacity={opacity} />
             )}
             <mesh position={[0, 0.1, 0.03]}><planeGeometry args={[1.2, 1.2]} /><meshPhysicalMaterial transparent opacity={0.1 * opacity} roughness={0.0} clearcoat={1.0} /></mesh>
         </group>
@@ -976,7 +1187,8 @@ const GeometricDecoration = ({ position, scale, type }: { position: [number, num
 };
 
 // -- HELPER: Shape Radius for Wrapping Items --
-const getShapeRadiusAtY = (y: number, shape: TreeShape): number => {
+const getShapeRadiusAtY = (y: number, shape: TreeShape, custom: ShapeSampler | null): number => {
+    if (shape === 'custom') return custom ? custom.radiusAt(y) : 0;
     if (shape === 'stool') {
         // Updated for Scaled (1.925x) Stool
         // Ensure items float outside the larger stool radius
@@ -1019,7 +1231,10 @@ const lerp3 = (v1: THREE.Vector3, v2: THREE.Vector3, t: number) => {
     return new THREE.Vector3().lerpVectors(v1, v2, t);
 };
 
-export const Tree: React.FC<TreeProps> = ({ photos, onPhotoClick, isExploded, isTwinkling, gestureRotation, foliageColor = '#064e3b', treeStyle, shape }) => {
+export const Tree: React.FC<TreeProps> = ({ photos, onPhotoClick, isExploded, isTwinkling, gestureRotation, foliageColor = '#064e3b', treeStyle, shape: requestedShape, customShape, highlightedPhotoId }) => {
+  // A custom shape without its definition draws the classic tree
+  const shape: TreeShape = requestedShape === 'custom' && !customShape ? 'tree' : requestedShape;
+  const customSampler = useMemo(() => (shape === 'custom' && customShape ? createShapeSampler(customShape) : null), [shape, customShape]);
   const groupRef = useRef<THREE.Group>(null);
   const foliageRef = useRef<THREE.Points>(null);
   
@@ -1048,7 +1263,7 @@ export const Tree: React.FC<TreeProps> = ({ photos, onPhotoClick, isExploded, is
   // -- 1. Generate Shape Points --
   const { positions, colors, geometricItems } = useMemo(() => {
     // Increase particle density significantly for "Hollow" shapes (Tree, Snowman, Reindeer)
-    const isHighDensity = shape === 'real_tree' || shape === 'diamond' || shape === 'tree' || shape === 'snowman' || shape === 'reindeer';
+    const isHighDensity = shape === 'real_tree' || shape === 'diamond' || shape === 'tree' || shape === 'snowman' || shape === 'reindeer' || shape === 'custom';
     
     // Base count logic: Geometric is low poly, others are high particle count
     const baseCount = treeStyle === 'geometric' ? 1000 : 12000; 
@@ -1078,6 +1293,15 @@ export const Tree: React.FC<TreeProps> = ({ photos, onPhotoClick, isExploded, is
         if (shape === 'stool') {
              // Logic moved to StoolRibbon component
         }
+        else if (shape === 'custom' && customSampler) {
+            const sample = customSampler.sample();
+            [x, y, z] = sample.position;
+            if (sample.color) colorHex = sample.color;
+            else if (foliageColor === 'rainbow') {
+                tempColor.setHSL(Math.random(), 0.8, 0.5);
+                colorHex = '#' + tempColor.getHexString();
+            }
+        }
         else if (shape === 'tree' || shape === 'twin_towers') {
             const h = Math.random() * height;
             const progress = h / height;
@@ -1423,7 +1647,7 @@ export const Tree: React.FC<TreeProps> = ({ photos, onPhotoClick, isExploded, is
         }
     }
     return { positions: posArray, colors: colArray, geometricItems: geoItems };
-  }, [leafCount, treeStyle, foliageColor, shape]); 
+  }, [leafCount, treeStyle, foliageColor, shape, customSampler]); 
 
   // -- 2. String Lights --
   const stringLights = useMemo(() => {
@@ -1460,7 +1684,7 @@ export const Tree: React.FC<TreeProps> = ({ photos, onPhotoClick, isExploded, is
           for(let i=0; i<total; i++) {
               const t = i / total;
               const h = (t * 18) - 9; 
-              const rBase = getShapeRadiusAtY(h, shape);
+              const rBase = getShapeRadiusAtY(h, shape, customSampler);
               if (rBase <= 0.1) continue; 
 
               const r = rBase + 0.2; 
@@ -1474,11 +1698,11 @@ export const Tree: React.FC<TreeProps> = ({ photos, onPhotoClick, isExploded, is
       }
       
       return { positions: new Float32Array(points), colors: new Float32Array(lightColors) };
-  }, [shape]);
+  }, [shape, customSampler]);
 
   // -- 3. Decorations --
   const decorations = useMemo(() => {
-      const supportsDecor = shape === 'tree' || shape === 'real_tree' || shape === 'diamond' || shape === 'twin_towers';
+      const supportsDecor = shape === 'tree' || shape === 'real_tree' || shape === 'diamond' || shape === 'twin_towers' || shape === 'custom';
       if (!supportsDecor) return { baubles: [], gifts: [], ribbons: [], flowers: [], geometricDecors: [] }; 
       
       const baubles = [];
@@ -1493,7 +1717,7 @@ export const Tree: React.FC<TreeProps> = ({ photos, onPhotoClick, isExploded, is
       
       const flowerPalette = ['#ec4899', '#fbcfe8', '#ffffff']; 
 
-      const count = (shape === 'real_tree') ? 24 : (shape === 'diamond' ? 80 : 200); 
+      const count = (shape === 'real_tree') ? 24 : (shape === 'diamond' ? 80 : (shape === 'custom' ? 120 : 200)); 
 
       for (let i = 0; i < count; i++) {
         let pos: [number, number, number] = [0,0,0];
@@ -1515,11 +1739,15 @@ export const Tree: React.FC<TreeProps> = ({ photos, onPhotoClick, isExploded, is
              // Pass
         }
         else {
-            const h = Math.random() * height;
-            const rBase = (radiusBottom * (1 - h/height));
-            const r = rBase * 0.9;
-            const theta = Math.random() * 2 * Math.PI;
-            pos = [r*Math.cos(theta), h - height/2, r*Math.sin(theta)];
+            if (customSampler) {
+                pos = customSampler.sample().position;
+            } else {
+                const h = Math.random() * height;
+                const rBase = (radiusBottom * (1 - h/height));
+                const r = rBase * 0.9;
+                const theta = Math.random() * 2 * Math.PI;
+                pos = [r*Math.cos(theta), h - height/2, r*Math.sin(theta)];
+            }
             
             if (Math.random() > 0.3) {
                 baubles.push({ position: pos, color: baublePalette[Math.floor(Math.random()*baublePalette.length)], scale });
@@ -1529,36 +1757,53 @@ export const Tree: React.FC<TreeProps> = ({ photos, onPhotoClick, isExploded, is
         }
       }
       return { baubles, gifts, ribbons, flowers, geometricDecors };
-  }, [shape, isSilver]);
+  }, [shape, isSilver, customSampler]);
 
   // -- 4. Photos Scattered --
   const layout = useMemo(() => {
       const count = photos.length > 0 ? photos.length : 24; 
+      const goldenAngle = Math.PI * (3 - Math.sqrt(5));
+
+      // Photo band and radius per height for the current shape
+      let hMin = -7, hMax = 7;
+      let radiusAt = (h: number) => getShapeRadiusAtY(h, shape, customSampler);
+      if (shape === 'stool') {
+         // Updated Photo Layout for new size (match Ribbon height and taper)
+         // Ribbon moves -10 to 9.5
+         // Safe Photo range -8 to 8
+         hMin = -8; hMax = 8;
+         // Ribbon T relative to its own range (-10 to 9.5, range 19.5)
+         // R = 9.5 - (T * 6.0), photo slightly outside ribbon radius
+         radiusAt = (h: number) => 9.5 - (((h - (-10)) / 19.5) * 6.0) + 0.5;
+      }
+      if (customSampler) {
+         // Keep clear of the ends, where the silhouette narrows to a point
+         hMin = Math.max(-8, customSampler.bottom + 1);
+         hMax = Math.min(8, customSampler.top - 1);
+      }
+
+      // Cumulative surface area along the band, so photos spread evenly over the
+      // surface instead of piling up where the shape is narrow
+      const STEPS = 200;
+      const dh = (hMax - hMin) / STEPS;
+      const cumulative = [0];
+      for (let s = 0; s < STEPS; s++) {
+          const r = radiusAt(hMin + (s + 0.5) * dh) + 0.8;
+          cumulative.push(cumulative[s] + 2 * Math.PI * r * dh);
+      }
+      const totalArea = cumulative[STEPS];
+
+      // Shrink Polaroids (1.4 x 1.8) once each one has less than ~2x its own area to itself
+      const photoScale = Math.min(1, Math.max(0.35, Math.sqrt(totalArea / count / (1.4 * 1.8 * 2))));
+
+      let step = 0;
       return Array.from({ length: count }).map((_, i) => {
-          const goldenAngle = Math.PI * (3 - Math.sqrt(5));
-          const t = i / count;
-          
-          let h, rBase;
-          if (shape === 'stool') {
-             // Updated Photo Layout for new size (match Ribbon height and taper)
-             // Ribbon moves -10 to 9.5
-             // Safe Photo range -8 to 8
-             h = -8 + t * 16; 
-             
-             // Calculate Ribbon Radius at this height
-             // Ribbon T relative to its own range (-10 to 9.5, range 19.5)
-             // R = 9.5 - (T * 6.0)
-             const ribbonT = (h - (-10)) / 19.5;
-             const ribbonR = 9.5 - (ribbonT * 6.0);
-             
-             // Place photo slightly outside ribbon radius
-             rBase = ribbonR + 0.5;
-          } else {
-             h = (t * 14) - 7; 
-             rBase = getShapeRadiusAtY(h, shape);
-          }
+          const targetArea = ((i + 0.5) / count) * totalArea;
+          while (step < STEPS - 1 && cumulative[step + 1] < targetArea) step++;
+          const stepArea = cumulative[step + 1] - cumulative[step];
+          const h = hMin + (step + (stepArea > 0 ? (targetArea - cumulative[step]) / stepArea : 0)) * dh;
 
-          const r = rBase + 0.8;
+          const r = radiusAt(h) + 0.8;
           
           const theta = i * goldenAngle * 10; 
           const x = r * Math.cos(theta);
@@ -1576,12 +1821,14 @@ export const Tree: React.FC<TreeProps> = ({ photos, onPhotoClick, isExploded, is
           const explodedPosition = position.clone().normalize().multiplyScalar(10 + Math.random() * 8);
           explodedPosition.y += (Math.random() - 0.5) * 10; 
           
-          return { initialPos: position, explodedPos: explodedPosition, initialRot: rotation };
+          return { initialPos: position, explodedPos: explodedPosition, initialRot: rotation, scale: photoScale };
       });
-  }, [photos.length, shape]);
+  }, [photos.length, shape, customSampler]);
 
   const photoItems = useMemo(() => {
-      return photos.map((photo, i) => {
+      // Layout fills from the bottom up, so pinned photos go last to take the top spots
+      const placement = [...photos.filter(p => !p.pinned), ...photos.filter(p => p.pinned)];
+      return placement.map((photo, i) => {
           const itemLayout = layout[i] || layout[0];
           return {
               ...itemLayout,
@@ -1606,7 +1853,7 @@ export const Tree: React.FC<TreeProps> = ({ photos, onPhotoClick, isExploded, is
         if (item.ref.current) {
             const targetPos = isExploded ? item.explodedPos : item.initialPos;
             item.ref.current.position.lerp(targetPos, lerpFactor);
-            const targetScale = isExploded ? 4.5 : 1;
+            const targetScale = (isExploded ? 4.5 : 1) * item.scale;
             item.ref.current.scale.lerp(new THREE.Vector3(targetScale, targetScale, targetScale), lerpFactor);
             if (isExploded) {
                 item.ref.current.rotation.x += delta * 0.2;
@@ -1649,7 +1896,10 @@ export const Tree: React.FC<TreeProps> = ({ photos, onPhotoClick, isExploded, is
 
   const starColor = (isSilver || shape === 'diamond') ? '#ffffff' : '#FFD700';
 
-  const isHighDensity = shape === 'real_tree' || shape === 'diamond' || shape === 'tree' || shape === 'snowman' || shape === 'reindeer';
+  const isHighDensity = shape === 'real_tree' || shape === 'diamond' || shape === 'tree' || shape === 'snowman' || shape === 'reindeer' || shape === 'custom';
+
+  // Topper height per shape
+  const topperY = shape === 'stool' ? 11.5 : (customSampler ? customSampler.top + 0.5 : height/2 + 0.5);
 
   return (
     <group ref={groupRef}>
@@ -1750,13 +2000,17 @@ export const Tree: React.FC<TreeProps> = ({ photos, onPhotoClick, isExploded, is
           }
 
           return (
-             <group key={item.photo.id} ref={item.ref} position={item.initialPos} rotation={item.initialRot}>
+             // `photoId` lets the hand pointer find the Polaroid it raycasts into
+             <group key={item.photo.id} ref={item.ref} position={item.initialPos} rotation={item.initialRot} scale={item.scale} userData={item.photo.isEmpty ? {} : { photoId: item.photo.id }}>
                  <Float rotationIntensity={isExploded ? 0 : 0.1} floatIntensity={isExploded ? 0 : 0.2} speed={2}>
                     <PolaroidFrame 
                         url={item.photo.url} 
                         texture={texture}
                         onClick={(e) => { e.stopPropagation(); onPhotoClick(item.photo); }} 
                         isEmpty={item.photo.isEmpty}
+                        focalPoint={displayFocalPoint(item.photo)}
+                        mediaType={item.photo.mediaType}
+                        highlighted={highlightedPhotoId === item.photo.id}
                     />
                  </Float>
              </group>
@@ -1764,8 +2018,8 @@ export const Tree: React.FC<TreeProps> = ({ photos, onPhotoClick, isExploded, is
       })}
 
       {/* Top Ornament */}
-      {(shape === 'tree' || shape === 'real_tree' || shape === 'diamond' || shape === 'twin_towers' || shape === 'stool') && (
-        <group visible={!isExploded} position={[0, (shape === 'stool' ? 11.5 : (shape === 'tree' || shape === 'real_tree' || shape === 'diamond' || shape === 'twin_towers' ? height/2 + 0.5 : 0)), 0]}>
+      {(shape === 'tree' || shape === 'real_tree' || shape === 'diamond' || shape === 'twin_towers' || shape === 'stool' || shape === 'custom') && (
+        <group visible={!isExploded} position={[0, topperY, 0]}>
             {shape === 'real_tree' ? (
                  <group>
                      <Flower color="#f9a8d4" position={[0,0,0]} scale={2.8} />
@@ -12,4 +12,13 @@ root.render(
   <React.StrictMode>
     <App />
   </React.StrictMode>
-);
\ No newline at end of file
+);
+
+// Cache the app and the MediaPipe files for offline use (skipped in dev so edits aren't served stale)
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    const params = new URLSearchParams({ build: __BUILD_ID__, mediapipe: __MEDIAPIPE_VERSION__ });
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js?${params}`)
+      .catch(err => console.warn("Service worker registration failed", err));
+  });
+}
\ No newline at end of file
@@ -0,0 +1,108 @@
+// Offline cache for the app shell, the built assets and the MediaPipe runtime/models.
+// Pages and unhashed files are network-first so a new deploy shows up when online; hashed
+// build assets and MediaPipe files are cache-first. CDN styles and fonts are served from
+// cache and refreshed in the background.
+
+// Registered as sw.js?build=<id>&mediapipe=<version>: every build gets a fresh app cache,
+// the large MediaPipe files are only fetched again when the runtime version changes
+const params = new URL(self.location.href).searchParams;
+const CACHE = `christmas-tree-${params.get('build') || 'dev'}`;
+const MEDIAPIPE_CACHE = `christmas-tree-mediapipe-${params.get('mediapipe') || 'dev'}`;
+
+// Fetched on install so gestures work offline even before they were first used
+const PRECACHE = ['./'];
+const MEDIAPIPE_PRECACHE = [
+    'mediapipe/wasm/vision_wasm_internal.js',
+    'mediapipe/wasm/vision_wasm_internal.wasm',
+    'mediapipe/models/gesture_recognizer.task',
+    'mediapipe/models/blaze_face_short_range.tflite',
+    'mediapipe/models/pose_landmarker_lite.task',
+    'mediapipe/models/face_landmarker.task'
+];
+
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+
+const scope = new URL(self.registration.scope).pathname;
+
+// One missing file (e.g. models not downloaded) shouldn't stop the rest
+const precache = (name, urls) => caches.open(name).then(cache => Promise.allSettled(urls.map(url => cache.add(url))));
+
+self.addEventListener('install', (event) => {
+    event.waitUntil(
+        Promise.all([precache(CACHE, PRECACHE), precache(MEDIAPIPE_CACHE, MEDIAPIPE_PRECACHE)])
+            .then(() => self.skipWaiting())
+    );
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil(
+        caches.keys()
+            .then(keys => Promise.all(keys.filter(key => key !== CACHE && key !== MEDIAPIPE_CACHE).map(key => caches.delete(key))))
+            .then(() => self.clients.claim())
+    );
+});
+
+// Keep a copy without holding up the response; a full or failing cache mustn't break the fetch
+const store = (event, cache, request, response) => {
+    event.waitUntil(cache.put(request, response).catch(err => console.warn('Cache write failed', request.url, err)));
+};
+
+const networkFirst = async (event) => {
+    const request = event.request;
+    const cache = await caches.open(CACHE);
+    try {
+        const response = await fetch(request);
+        if (response.ok) store(event, cache, request, response.clone());
+        return response;
+    } catch (err) {
+        const cached = await cache.match(request);
+        if (cached) return cached;
+        // Offline deep links still get the app
+        return (request.mode === 'navigate' && await cache.match('./')) || Response.error();
+    }
+};
+
+const cacheFirst = async (event, name) => {
+    const request = event.request;
+    const cache = await caches.open(name);
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    const response = await fetch(request);
+    if (response.ok) store(event, cache, request, response.clone());
+    return response;
+};
+
+const staleWhileRevalidate = async (event) => {
+    const request = event.request;
+    const cache = await caches.open(CACHE);
+    const cached = await cache.match(request);
+    const refresh = fetch(request).then(response => {
+        // CDN responses without CORS are opaque, they can still be replayed
+        if (response.ok || response.type === 'opaque') store(event, cache, request, response.clone());
+        return response;
+    });
+    if (cached) {
+        event.waitUntil(refresh.catch(() => {}));
+        return cached;
+    }
+    return refresh;
+};
+
+self.addEventListener('fetch', (event) => {
+    const request = event.request;
+    if (request.method !== 'GET') return;
+    const url = new URL(request.url);
+
+    if (url.origin === self.location.origin) {
+        if (url.pathname.startsWith(`${scope}mediapipe/`)) {
+            event.respondWith(cacheFirst(event, MEDIAPIPE_CACHE));
+        } else if (url.pathname.startsWith(`${scope}assets/`)) {
+            // Hashed names - a new build never reuses one
+            event.respondWith(cacheFirst(event, CACHE));
+        } else {
+            event.respondWith(networkFirst(event));
+        }
+    } else if (CDN_HOSTS.includes(url.hostname)) {
+        event.respondWith(staleWhileRevalidate(event));
+    }
+});
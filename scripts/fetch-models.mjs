@@ -0,0 +1,41 @@
+// Download the MediaPipe models into public/mediapipe/models so they ship with the build.
+// Files already present are kept. Runs before `npm run build`; without internet it only warns,
+// and the app shows gesture control as unavailable until the models are added.
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const MODELS = [
+    {
+        file: 'gesture_recognizer.task',
+        url: 'https://storage.googleapis.com/mediapipe-models/gesture_recognizer/gesture_recognizer/float16/1/gesture_recognizer.task'
+    },
+    {
+        file: 'blaze_face_short_range.tflite',
+        url: 'https://storage.googleapis.com/mediapipe-models/face_detector/blaze_face_short_range/float16/1/blaze_face_short_range.tflite'
+    },
+    {
+        file: 'pose_landmarker_lite.task',
+        url: 'https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_lite/float16/1/pose_landmarker_lite.task'
+    },
+    {
+        file: 'face_landmarker.task',
+        url: 'https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task'
+    }
+];
+
+const outDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../public/mediapipe/models');
+fs.mkdirSync(outDir, { recursive: true });
+
+for (const { file, url } of MODELS) {
+    const target = path.join(outDir, file);
+    if (fs.existsSync(target)) continue;
+    try {
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        fs.writeFileSync(target, Buffer.from(await response.arrayBuffer()));
+        console.log(`Downloaded ${file}`);
+    } catch (err) {
+        console.warn(`Could not download ${file} (${err.message}). Copy it to ${target} manually for offline use.`);
+    }
+}
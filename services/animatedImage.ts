@@ -0,0 +1,130 @@
+import { detectImageFormat } from './imagePipeline';
+
+// Animated images are stored as uploaded - redrawing them on a canvas keeps only the first frame
+export const MAX_ANIMATED_BYTES = 8 * 1024 * 1024;
+// Decoded frames live in memory as bitmaps, so keep them small and few
+const MAX_FRAME_SIZE = 512;
+const MAX_FRAMES = 120;
+// Browsers treat very short GIF delays (0-10ms) as 100ms, do the same
+const DEFAULT_FRAME_MS = 100;
+
+export interface AnimatedFrames {
+    width: number;
+    height: number;
+    frames: ImageBitmap[];
+    durations: number[]; // Milliseconds per frame
+}
+
+// Walk the GIF blocks and stop at the second image descriptor
+const gifHasMultipleFrames = (bytes: Uint8Array): boolean => {
+    const skipSubBlocks = (pos: number) => {
+        while (pos < bytes.length && bytes[pos] !== 0) pos += bytes[pos] + 1;
+        return pos + 1;
+    };
+
+    let pos = 13;
+    if (bytes[10] & 0x80) pos += 3 * (1 << ((bytes[10] & 0x07) + 1)); // Global colour table
+    let frames = 0;
+    while (pos < bytes.length) {
+        const block = bytes[pos];
+        if (block === 0x2C) {
+            if (++frames > 1) return true;
+            const packed = bytes[pos + 9];
+            pos += 10;
+            if (packed & 0x80) pos += 3 * (1 << ((packed & 0x07) + 1)); // Local colour table
+            pos = skipSubBlocks(pos + 1); // +1: LZW minimum code size
+        } else if (block === 0x21) {
+            pos = skipSubBlocks(pos + 2);
+        } else {
+            return false; // Trailer (0x3B) or damaged data
+        }
+    }
+    return false;
+};
+
+// Animated GIF or WebP (single-frame files of either format go through normal compression)
+export const isAnimatedImage = async (file: Blob): Promise<boolean> => {
+    const format = await detectImageFormat(file);
+    if (format === 'webp') {
+        // VP8X header with the animation flag set
+        const bytes = new Uint8Array(await file.slice(0, 21).arrayBuffer());
+        return String.fromCharCode(...bytes.subarray(12, 16)) === 'VP8X' && (bytes[20] & 0x02) !== 0;
+    }
+    if (format === 'gif') {
+        return gifHasMultipleFrames(new Uint8Array(await file.arrayBuffer()));
+    }
+    return false;
+};
+
+// Check an animated image against the size limit. Throws an Error with a bilingual message when it can't be used.
+export const prepareAnimatedImage = async (file: Blob): Promise<Blob> => {
+    if (file.size > MAX_ANIMATED_BYTES) {
+        const mb = Math.round(MAX_ANIMATED_BYTES / 1024 / 1024);
+        throw new Error(`动图太大 (最大 ${mb} MB)。\nThe animated image is too large (${mb} MB max).`);
+    }
+    return file;
+};
+
+// Decode every frame with ImageDecoder. Resolves to null where it's unsupported (the first frame is shown instead).
+const decodeFrames = async (url: string): Promise<AnimatedFrames | null> => {
+    if (typeof ImageDecoder === 'undefined') return null;
+    try {
+        const blob = await (await fetch(url)).blob();
+        const format = await detectImageFormat(blob);
+        if (format !== 'gif' && format !== 'webp') return null;
+        const type = `image/${format}`;
+        if (!await ImageDecoder.isTypeSupported(type)) return null;
+
+        const decoder = new ImageDecoder({ data: await blob.arrayBuffer(), type });
+        try {
+            await decoder.tracks.ready;
+            const track = decoder.tracks.selectedTrack;
+            const count = Math.min(track?.frameCount ?? 1, MAX_FRAMES);
+            const result: AnimatedFrames = { width: 0, height: 0, frames: [], durations: [] };
+
+            for (let i = 0; i < count; i++) {
+                const { image } = await decoder.decode({ frameIndex: i });
+                try {
+                    if (i === 0) {
+                        const scale = Math.min(1, MAX_FRAME_SIZE / Math.max(image.displayWidth, image.displayHeight));
+                        result.width = Math.max(1, Math.round(image.displayWidth * scale));
+                        result.height = Math.max(1, Math.round(image.displayHeight * scale));
+                    }
+                    result.frames.push(await createImageBitmap(image, { resizeWidth: result.width, resizeHeight: result.height }));
+                    const ms = (image.duration ?? 0) / 1000; // Microseconds
+                    result.durations.push(ms > 10 ? ms : DEFAULT_FRAME_MS);
+                } finally {
+                    image.close();
+                }
+            }
+            return result;
+        } finally {
+            decoder.close();
+        }
+    } catch (err) {
+        console.warn("Could not decode animated image", err);
+        return null;
+    }
+};
+
+// -- Shared Frame Cache --
+// The tree ornament and the focus view show the same file - decode it once and free it when neither needs it
+
+const cache = new Map<string, { frames: Promise<AnimatedFrames | null>; users: number }>();
+
+export const loadAnimatedFrames = (url: string): Promise<AnimatedFrames | null> => {
+    let entry = cache.get(url);
+    if (!entry) {
+        entry = { frames: decodeFrames(url), users: 0 };
+        cache.set(url, entry);
+    }
+    entry.users++;
+    return entry.frames;
+};
+
+export const releaseAnimatedFrames = (url: string) => {
+    const entry = cache.get(url);
+    if (!entry || --entry.users > 0) return;
+    cache.delete(url);
+    entry.frames.then(frames => frames?.frames.forEach(bitmap => bitmap.close()));
+};
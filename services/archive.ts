@@ -0,0 +1,304 @@
+import { AppConfig, PhotoMeta, TreeProject } from "../types";
+import { saveFiles, getFiles, saveSettings, getSettings } from './storage';
+import { createTree, getTreeFileKeys } from './trees';
+import { holdFileKeys } from './storageManager';
+import { treeKey, treeSettingsKey, normalizeAppConfig, normalizePhotoMeta, editedFileKey } from './schema';
+
+// Bump when the manifest layout changes and add a step to ARCHIVE_MIGRATIONS
+export const ARCHIVE_VERSION = 1;
+const ARCHIVE_FORMAT = 'christmas-tree-archive';
+const MANIFEST_PATH = 'manifest.json';
+
+interface ArchiveFileEntry {
+    key: string;  // Photo id, edited photo key or 'bg-music'
+    path: string; // Path inside the zip
+    type: string; // MIME type of the Blob
+}
+
+export interface ArchiveManifest {
+    format: typeof ARCHIVE_FORMAT;
+    version: number;
+    exportedAt: string;
+    name: string;
+    appConfig: AppConfig;
+    photoMeta: PhotoMeta[];
+    files: ArchiveFileEntry[];
+}
+
+// Upgrade steps keyed by the version they upgrade FROM (e.g. 1 -> 2 lives under key 1)
+type RawManifest = Record<string, unknown>;
+const ARCHIVE_MIGRATIONS: Record<number, (manifest: RawManifest) => RawManifest> = {};
+
+const CORRUPTED_ARCHIVE = "压缩包已损坏。\nThe archive is corrupted.";
+const INCOMPLETE_MANIFEST = "存档内容不完整。\nThe archive manifest is incomplete.";
+
+// ---------------------------------------------------------------------------
+// Minimal ZIP (store only, no compression - photos are already JPEG)
+// ---------------------------------------------------------------------------
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+const dosDateTime = (date: Date) => {
+    const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+    const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+    return { time, day };
+};
+
+const createZip = (entries: { path: string; data: Uint8Array }[]): Blob => {
+    const encoder = new TextEncoder();
+    const { time, day } = dosDateTime(new Date());
+    const parts: BlobPart[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.path);
+        const crc = crc32(entry.data);
+        const size = entry.data.length;
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034b50, true);
+        local.setUint16(4, 20, true);        // Version needed
+        local.setUint16(6, 0x0800, true);    // UTF-8 names
+        local.setUint16(8, 0, true);         // Stored
+        local.setUint16(10, time, true);
+        local.setUint16(12, day, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, size, true);
+        local.setUint32(22, size, true);
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true);
+        parts.push(local.buffer, name, entry.data);
+
+        const header = new DataView(new ArrayBuffer(46));
+        header.setUint32(0, 0x02014b50, true);
+        header.setUint16(4, 20, true);       // Version made by
+        header.setUint16(6, 20, true);       // Version needed
+        header.setUint16(8, 0x0800, true);
+        header.setUint16(10, 0, true);
+        header.setUint16(12, time, true);
+        header.setUint16(14, day, true);
+        header.setUint32(16, crc, true);
+        header.setUint32(20, size, true);
+        header.setUint32(24, size, true);
+        header.setUint16(28, name.length, true);
+        header.setUint32(42, offset, true);  // Local header offset
+        central.push(new Uint8Array(header.buffer), name);
+
+        offset += 30 + name.length + size;
+    }
+
+    const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+};
+
+const readZip = (buffer: ArrayBuffer): Map<string, Uint8Array> => {
+    const view = new DataView(buffer);
+    const decoder = new TextDecoder();
+    const files = new Map<string, Uint8Array>();
+    // Offsets come from the file itself, so a truncated archive must fail here rather than with a RangeError
+    const ensure = (offset: number, length: number) => {
+        if (offset < 0 || offset + length > buffer.byteLength) throw new Error(CORRUPTED_ARCHIVE);
+    };
+
+    // Locate the End Of Central Directory record (scan backwards past an optional comment)
+    let eocd = -1;
+    for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+        if (view.getUint32(i, true) === 0x06054b50) { eocd = i; break; }
+    }
+    if (eocd < 0) throw new Error("文件不是有效的压缩包。\nThe file is not a valid zip archive.");
+
+    const count = view.getUint16(eocd + 10, true);
+    let ptr = view.getUint32(eocd + 16, true);
+
+    for (let i = 0; i < count; i++) {
+        ensure(ptr, 46);
+        if (view.getUint32(ptr, true) !== 0x02014b50) throw new Error(CORRUPTED_ARCHIVE);
+        const method = view.getUint16(ptr + 10, true);
+        const size = view.getUint32(ptr + 20, true);
+        const nameLength = view.getUint16(ptr + 28, true);
+        const extraLength = view.getUint16(ptr + 30, true);
+        const commentLength = view.getUint16(ptr + 32, true);
+        const localOffset = view.getUint32(ptr + 42, true);
+        ensure(ptr + 46, nameLength);
+        const name = decoder.decode(new Uint8Array(buffer, ptr + 46, nameLength));
+
+        if (method !== 0) throw new Error(`不支持的压缩方式: ${name}\nUnsupported compression for ${name}. Please import an archive exported by this app.`);
+
+        ensure(localOffset, 30);
+        const localNameLength = view.getUint16(localOffset + 26, true);
+        const localExtraLength = view.getUint16(localOffset + 28, true);
+        const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+        ensure(dataStart, size);
+        files.set(name, new Uint8Array(buffer, dataStart, size));
+
+        ptr += 46 + nameLength + extraLength + commentLength;
+    }
+    return files;
+};
+
+// ---------------------------------------------------------------------------
+// Manifest helpers
+// ---------------------------------------------------------------------------
+
+const extensionFor = (type: string): string => {
+    if (type.includes('jpeg')) return 'jpg';
+    if (type.includes('png')) return 'png';
+    if (type.includes('webp')) return 'webp';
+    if (type.includes('gif')) return 'gif';
+    if (type.includes('mpeg')) return 'mp3';
+    if (type.includes('mp4')) return 'mp4';
+    if (type.includes('webm')) return 'webm';
+    if (type.includes('quicktime')) return 'mov';
+    if (type.includes('ogg')) return 'ogg';
+    if (type.includes('wav')) return 'wav';
+    return 'bin';
+};
+
+// Unlike the settings normalizers, a bad entry can't be repaired - its Blob would be lost
+const normalizeFileEntries = (raw: unknown[]): ArchiveFileEntry[] => {
+    return raw.map(item => {
+        const r = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+        if (typeof r.key !== 'string' || !r.key || typeof r.path !== 'string' || typeof r.type !== 'string') {
+            throw new Error(INCOMPLETE_MANIFEST);
+        }
+        return { key: r.key, path: r.path, type: r.type };
+    });
+};
+
+// Validate the manifest and run it through every migration up to ARCHIVE_VERSION
+const migrateManifest = (raw: unknown): ArchiveManifest => {
+    const r = (raw && typeof raw === 'object' ? raw : {}) as RawManifest;
+    if (r.format !== ARCHIVE_FORMAT || typeof r.version !== 'number' || !Number.isInteger(r.version)) {
+        throw new Error("这不是圣诞树存档文件。\nThis is not a Christmas tree archive.");
+    }
+    if (r.version > ARCHIVE_VERSION) {
+        throw new Error(`存档来自更新的版本 (v${r.version})，请先更新应用。\nThe archive was made by a newer version (v${r.version}). Please update the app.`);
+    }
+
+    let manifest = r;
+    for (let v = r.version; v < ARCHIVE_VERSION; v++) {
+        const migrate = ARCHIVE_MIGRATIONS[v];
+        if (!migrate) throw new Error(`Missing archive migration from v${v}`);
+        manifest = migrate(manifest);
+    }
+
+    if (!Array.isArray(manifest.photoMeta) || !Array.isArray(manifest.files)) {
+        throw new Error(INCOMPLETE_MANIFEST);
+    }
+    // Records go through the same normalizers as the database migrations
+    return {
+        format: ARCHIVE_FORMAT,
+        version: ARCHIVE_VERSION,
+        exportedAt: typeof manifest.exportedAt === 'string' ? manifest.exportedAt : '',
+        name: typeof manifest.name === 'string' && manifest.name.trim() ? manifest.name : 'Imported Tree',
+        appConfig: normalizeAppConfig(manifest.appConfig),
+        photoMeta: normalizePhotoMeta(manifest.photoMeta),
+        files: normalizeFileEntries(manifest.files)
+    };
+};
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+// Bundle a tree's config, photo meta, photos and music into one zip Blob
+export const exportTreeArchive = async (treeId: string, name: string): Promise<Blob> => {
+    const appConfig = normalizeAppConfig(await getSettings(treeSettingsKey(treeId, 'appConfig')));
+    const photoMeta = normalizePhotoMeta(await getSettings(treeSettingsKey(treeId, 'photoMeta')));
+    const entries: { path: string; data: Uint8Array }[] = [];
+    const files: ArchiveFileEntry[] = [];
+
+    // Read every Blob in one transaction
+    const keys = await getTreeFileKeys(treeId);
+    const blobs = await getFiles(keys.map(key => treeKey(treeId, key)));
+
+    for (let i = 0; i < keys.length; i++) {
+        const blob = blobs[i];
+        if (!blob) continue;
+        const folder = keys[i] === 'bg-music' ? 'music' : 'photos';
+        const path = `${folder}/${keys[i]}.${extensionFor(blob.type)}`;
+        entries.push({ path, data: new Uint8Array(await blob.arrayBuffer()) });
+        files.push({ key: keys[i], path, type: blob.type });
+    }
+
+    const manifest: ArchiveManifest = {
+        format: ARCHIVE_FORMAT,
+        version: ARCHIVE_VERSION,
+        exportedAt: new Date().toISOString(),
+        name,
+        appConfig,
+        photoMeta,
+        files
+    };
+    entries.unshift({ path: MANIFEST_PATH, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+
+    return createZip(entries);
+};
+
+// Restore an archive into a NEW tree, so importing never overwrites existing work
+export const importTreeArchive = async (file: Blob): Promise<TreeProject> => {
+    const zip = readZip(await file.arrayBuffer());
+    const manifestBytes = zip.get(MANIFEST_PATH);
+    if (!manifestBytes) throw new Error("存档中缺少 manifest.json。\nThe archive has no manifest.json.");
+
+    let raw: unknown;
+    try {
+        raw = JSON.parse(new TextDecoder().decode(manifestBytes));
+    } catch {
+        throw new Error("manifest.json 无法解析。\nmanifest.json could not be parsed.");
+    }
+    const manifest = migrateManifest(raw);
+
+    // Make sure every referenced file is present before touching the database
+    for (const entry of manifest.files) {
+        if (!zip.has(entry.path)) throw new Error(`存档缺少文件: ${entry.path}\nMissing file in archive: ${entry.path}`);
+    }
+
+    const tree = await createTree(manifest.name);
+    // The Blobs are unreferenced until photoMeta is written, keep a storage sweep off them
+    const release = holdFileKeys(manifest.files.map(entry => treeKey(tree.id, entry.key)));
+    try {
+        // Copy out of the zip buffer so the Blobs don't keep the whole archive alive
+        await saveFiles(manifest.files.map(entry => ({
+            id: treeKey(tree.id, entry.key),
+            file: new Blob([zip.get(entry.path)!.slice()], { type: entry.type })
+        })));
+
+        // Photos whose Blob wasn't bundled come back as empty slots, edits without their render are dropped
+        const bundled = new Set(manifest.files.map(f => f.key));
+        const photoMeta = manifest.photoMeta.map(p => {
+            if (!bundled.has(p.id)) return { ...p, isEmpty: true, edits: undefined };
+            if (p.edits && !bundled.has(editedFileKey(p.id))) return { ...p, edits: undefined };
+            return p;
+        });
+
+        await saveSettings(treeSettingsKey(tree.id, 'appConfig'), manifest.appConfig);
+        await saveSettings(treeSettingsKey(tree.id, 'photoMeta'), photoMeta);
+    } finally {
+        release();
+    }
+
+    return tree;
+};
@@ -0,0 +1,160 @@
+import { FaceLandmarker, FaceLandmarkerResult, ImageSource, NormalizedLandmark, PoseLandmarker, PoseLandmarkerResult } from '@mediapipe/tasks-vision';
+import { BodyTrigger, BodyTriggerSettings } from "../types";
+import { loadVisionFileset, mediapipeModelUrl } from './vision';
+import { GestureDelegate, GestureThresholds, TriggerReading, callGestureWorker, isGestureWorkerRunning } from './gesture';
+
+// Optional whole-body triggers for group photos: both arms raised (pose) and a smile (face).
+// The models are heavy, so each one is opt-in and runs in the gesture worker at a low rate
+// (on the main thread only where the worker isn't available).
+
+export type BodyDetector = keyof BodyTriggerSettings;
+
+// Anyone in a group photo can trigger
+const MAX_PEOPLE = 4;
+
+// Slower to start and end than hand poses - bodies move through these positions all the time
+export const BODY_TRIGGER_THRESHOLDS: Record<BodyTrigger, GestureThresholds> = {
+    Arms_Up: { enterScore: 0.6, exitScore: 0.4, holdMs: 300, releaseMs: 500 },
+    Smile: { enterScore: 0.5, exitScore: 0.3, holdMs: 300, releaseMs: 800 }
+};
+
+// Models of the thread this module runs in (the gesture worker, or the main thread as fallback)
+let poseLandmarker: PoseLandmarker | null = null;
+let faceLandmarker: FaceLandmarker | null = null;
+const loading: Partial<Record<BodyDetector, Promise<boolean>>> = {};
+const failed = new Set<BodyDetector>();
+
+// GPU first - on the CPU these models cost noticeable frame time
+const createWithFallback = async <T>(create: (delegate: GestureDelegate) => Promise<T>): Promise<T> => {
+    try {
+        return await create('GPU');
+    } catch (err) {
+        console.warn("Body detector failed on GPU, using CPU", err);
+        return create('CPU');
+    }
+};
+
+// Load a detector's model in this thread once. Resolves to false when it can't load;
+// a failed model is only tried again with `retry` (the user switching it on).
+export const loadDetector = (detector: BodyDetector, retry = false): Promise<boolean> => {
+    if (retry && failed.delete(detector)) delete loading[detector];
+    if (!loading[detector]) {
+        loading[detector] = loadVisionFileset()
+            .then(async vision => {
+                if (detector === 'pose') {
+                    poseLandmarker = await createWithFallback(delegate => PoseLandmarker.createFromOptions(vision, {
+                        baseOptions: { modelAssetPath: mediapipeModelUrl("pose_landmarker_lite.task"), delegate },
+                        runningMode: "VIDEO",
+                        numPoses: MAX_PEOPLE
+                    }));
+                } else {
+                    faceLandmarker = await createWithFallback(delegate => FaceLandmarker.createFromOptions(vision, {
+                        baseOptions: { modelAssetPath: mediapipeModelUrl("face_landmarker.task"), delegate },
+                        runningMode: "VIDEO",
+                        numFaces: MAX_PEOPLE,
+                        outputFaceBlendshapes: true
+                    }));
+                }
+                return true;
+            })
+            .catch((err) => {
+                console.error(`Failed to load the ${detector} detector:`, err);
+                failed.add(detector);
+                return false;
+            });
+    }
+    return loading[detector]!;
+};
+
+// -- Readings --
+
+// MediaPipe pose landmark indices
+const NOSE = 0;
+const LEFT_SHOULDER = 11;
+const RIGHT_SHOULDER = 12;
+const LEFT_WRIST = 15;
+const RIGHT_WRIST = 16;
+// Face mesh nose tip
+const FACE_NOSE_TIP = 1;
+
+// Lift of the lower wrist above its shoulder, in shoulder widths (1 = about the top of the head)
+const armsUpScore = (pose: NormalizedLandmark[]): number => {
+    const width = Math.hypot(pose[LEFT_SHOULDER].x - pose[RIGHT_SHOULDER].x, pose[LEFT_SHOULDER].y - pose[RIGHT_SHOULDER].y);
+    if (width < 0.01) return 0;
+    const lift = (wrist: NormalizedLandmark, shoulder: NormalizedLandmark) => (shoulder.y - wrist.y) / width * (wrist.visibility ?? 1);
+    const lower = Math.min(lift(pose[LEFT_WRIST], pose[LEFT_SHOULDER]), lift(pose[RIGHT_WRIST], pose[RIGHT_SHOULDER]));
+    return Math.min(1, Math.max(0, lower));
+};
+
+const smileScore = (blendshapes: FaceLandmarkerResult['faceBlendshapes'][number] | undefined): number => {
+    const score = (name: string) => blendshapes?.categories.find(c => c.categoryName === name)?.score ?? 0;
+    return (score('mouthSmileLeft') + score('mouthSmileRight')) / 2;
+};
+
+// The person scoring highest (X mirrored to match the selfie view)
+const bestReading = <T extends BodyTrigger>(gesture: T, people: { score: number; x: number }[]): TriggerReading<T> | null => {
+    if (people.length === 0) return null;
+    const best = people.reduce((a, b) => (b.score > a.score ? b : a));
+    return { gesture, score: best.score, x: 1 - best.x };
+};
+
+const readPose = (result: PoseLandmarkerResult) => {
+    return bestReading('Arms_Up', result.landmarks.map(pose => ({ score: armsUpScore(pose), x: pose[NOSE].x })));
+};
+
+const readFace = (result: FaceLandmarkerResult) => {
+    return bestReading('Smile', result.faceLandmarks.map((face, i) => ({ score: smileScore(result.faceBlendshapes[i]), x: face[FACE_NOSE_TIP].x })));
+};
+
+export interface BodyReadings {
+    pose: TriggerReading<'Arms_Up'> | null;
+    face: TriggerReading<'Smile'> | null;
+}
+
+// Run the enabled detectors of this thread on a frame. One that isn't loaded yet starts
+// loading and reads as nobody in view (e.g. after the worker fell back to the main thread).
+export const readBodyTriggers = (image: ImageSource, timestamp: number, enabled: BodyTriggerSettings): BodyReadings => {
+    const readings: BodyReadings = { pose: null, face: null };
+    if (enabled.pose && !poseLandmarker) loadDetector('pose');
+    if (enabled.face && !faceLandmarker) loadDetector('face');
+    try {
+        if (enabled.pose && poseLandmarker) readings.pose = readPose(poseLandmarker.detectForVideo(image, timestamp));
+        if (enabled.face && faceLandmarker) readings.face = readFace(faceLandmarker.detectForVideo(image, timestamp));
+    } catch (e) {
+        console.error("Body trigger detection error:", e);
+    }
+    return readings;
+};
+
+// -- Main Thread API --
+
+// Load a detector where detection will run. Resolves to false when it can't load.
+export const loadBodyDetector = async (detector: BodyDetector): Promise<boolean> => {
+    const response = await callGestureWorker(id => ({ type: 'loadBody', id, detector }));
+    if (response?.type === 'bodyLoaded') return response.loaded;
+    return loadDetector(detector, true);
+};
+
+// Run the enabled detectors on the current video frame. Call again only after the previous call resolved.
+export const detectBodyTriggers = async (video: HTMLVideoElement, enabled: BodyTriggerSettings): Promise<BodyReadings> => {
+    const nobody: BodyReadings = { pose: null, face: null };
+    if (!video.videoWidth || !video.videoHeight) return nobody;
+    const timestamp = performance.now();
+
+    if (isGestureWorkerRunning()) {
+        let frame: ImageBitmap;
+        try {
+            frame = await createImageBitmap(video);
+        } catch (e) {
+            console.error("Could not capture camera frame:", e);
+            return nobody;
+        }
+        const call = callGestureWorker(id => ({ type: 'detectBody', id, frame, timestamp, enabled }), [frame]);
+        if (call) {
+            const response = await call;
+            return response?.type === 'body' ? response.readings : nobody;
+        }
+        frame.close(); // The worker stopped while capturing
+    }
+    return readBodyTriggers(video, timestamp, enabled);
+};
@@ -0,0 +1,158 @@
+import { FocalPoint } from "../types";
+import { compressImage, detectImageFormat, unsupportedFormatError } from './imagePipeline';
+import { hashBlob } from './photoHash';
+import { detectFocalPoint } from './faceDetection';
+import type { ImageWorkerRequest, ImageWorkerResponse } from './imageWorker';
+
+export type CompressionResult =
+    | { status: 'done'; blob: Blob; hash?: string; focalPoint?: FocalPoint }
+    | { status: 'failed'; error: Error }
+    | { status: 'cancelled' };
+
+type PoolResponse = ImageWorkerResponse | { id: number; error: 'cancelled' };
+
+// Leave one core for rendering the tree
+const POOL_SIZE = Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
+
+const supportsWorkers = () =>
+    typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+
+// -- Worker Pool --
+// Workers are spawned lazily, handle one photo at a time and are kept for the next upload
+
+interface PoolWorker {
+    worker: Worker;
+    jobId: number | null;
+}
+
+let workers: PoolWorker[] = [];
+const queue: ImageWorkerRequest[] = [];
+const pending = new Map<number, (response: PoolResponse) => void>();
+let nextJobId = 0;
+
+const spawnWorker = (): PoolWorker => {
+    const entry: PoolWorker = {
+        worker: new Worker(new URL('./imageWorker.ts', import.meta.url), { type: 'module' }),
+        jobId: null
+    };
+    entry.worker.onmessage = (event: MessageEvent<ImageWorkerResponse>) => {
+        pending.get(event.data.id)?.(event.data);
+        pending.delete(event.data.id);
+        entry.jobId = null;
+        dispatch();
+    };
+    entry.worker.onerror = (event) => {
+        // A crashed worker fails its current photo; replace it so the queue keeps moving
+        console.error("Image worker crashed", event);
+        if (entry.jobId !== null) {
+            pending.get(entry.jobId)?.({ id: entry.jobId, error: 'decode' });
+            pending.delete(entry.jobId);
+        }
+        entry.worker.terminate();
+        workers = workers.filter(w => w !== entry);
+        dispatch();
+    };
+    workers.push(entry);
+    return entry;
+};
+
+const dispatch = () => {
+    while (queue.length > 0) {
+        const free = workers.find(w => w.jobId === null) ?? (workers.length < POOL_SIZE ? spawnWorker() : null);
+        if (!free) return;
+        const request = queue.shift()!;
+        free.jobId = request.id;
+        free.worker.postMessage(request);
+    }
+};
+
+// `jobs` collects the job ids so the caller can cancel them
+const runOnWorker = (file: Blob, jobs: Set<number>): Promise<PoolResponse> => {
+    return new Promise(resolve => {
+        const id = nextJobId++;
+        jobs.add(id);
+        pending.set(id, resolve);
+        queue.push({ id, file });
+        dispatch();
+    });
+};
+
+// Stop the given queued and running jobs; other uploads keep going. Workers are terminated
+// mid-photo and respawned on next use.
+const cancelJobs = (jobs: Set<number>) => {
+    const running = workers.filter(w => w.jobId !== null && jobs.has(w.jobId));
+    running.forEach(w => w.worker.terminate());
+    workers = workers.filter(w => !running.includes(w));
+    for (let i = queue.length - 1; i >= 0; i--) {
+        if (jobs.has(queue[i].id)) queue.splice(i, 1);
+    }
+    jobs.forEach(id => {
+        pending.get(id)?.({ id, error: 'cancelled' });
+        pending.delete(id);
+    });
+    dispatch();
+};
+
+// Main-thread pipeline: fallback for browsers without OffscreenCanvas and for
+// formats workers can't decode (HEIC: Safari's <img>, or libheif elsewhere)
+const compressOnMainThread = async (file: Blob): Promise<CompressionResult> => {
+    try {
+        const blob = await compressImage(file);
+        return { status: 'done', blob, hash: await hashBlob(blob), focalPoint: await detectFocalPoint(blob) };
+    } catch (err) {
+        return { status: 'failed', error: err instanceof Error ? err : new Error(String(err)) };
+    }
+};
+
+// -- Public API --
+
+// Compress many photos and find their faces off the main thread. Results keep the order of `files`;
+// anything not finished when `signal` aborts comes back as 'cancelled'.
+export const compressImages = async (
+    files: Blob[],
+    options: { onProgress?: (done: number, total: number) => void; signal?: AbortSignal } = {}
+): Promise<CompressionResult[]> => {
+    const { onProgress, signal } = options;
+    const results: CompressionResult[] = files.map(() => ({ status: 'cancelled' }));
+    let done = 0;
+    const finish = (index: number, result: CompressionResult) => {
+        results[index] = result;
+        onProgress?.(++done, files.length);
+    };
+
+    if (!supportsWorkers()) {
+        // One at a time so the UI can repaint and cancel between photos
+        for (let i = 0; i < files.length && !signal?.aborted; i++) {
+            finish(i, await compressOnMainThread(files[i]));
+        }
+        return results;
+    }
+
+    const jobs = new Set<number>();
+    const cancel = () => cancelJobs(jobs);
+    signal?.addEventListener('abort', cancel, { once: true });
+    try {
+        await Promise.all(files.map(async (file, i) => {
+            let format: Awaited<ReturnType<typeof detectImageFormat>>;
+            try {
+                format = await detectImageFormat(file);
+            } catch (err) {
+                // e.g. the file was moved or deleted after it was picked
+                console.warn("Could not read file", err);
+                finish(i, { status: 'failed', error: new Error("文件无法读取。\nThe file could not be read.") });
+                return;
+            }
+            if (!format) {
+                finish(i, { status: 'failed', error: unsupportedFormatError() });
+                return;
+            }
+            if (signal?.aborted) return;
+            const response = await runOnWorker(file, jobs);
+            if ('blob' in response) finish(i, { status: 'done', blob: response.blob, hash: response.hash, focalPoint: response.focalPoint });
+            else if (response.error !== 'cancelled' && !signal?.aborted) finish(i, await compressOnMainThread(file));
+        }));
+    } finally {
+        signal?.removeEventListener('abort', cancel);
+    }
+    return results;
+};
@@ -0,0 +1,286 @@
+import { CustomShape, ShapeProfilePoint, ShapeVolume } from "../types";
+import { normalizeCustomShape, outlineArea } from './schema';
+
+// Scene space the tree fills (see CustomShape in types.ts)
+const SHAPE_BOTTOM = -9;
+const SHAPE_HEIGHT = 18;
+const SHAPE_MAX_WIDTH = 18;
+const MAX_SHAPE_FILE_BYTES = 1024 * 1024;
+
+// -- Presets --
+
+// Five-pointed star outline, point up
+const starOutline = (outer: number, inner: number): [number, number][] => {
+    return Array.from({ length: 10 }, (_, i) => {
+        const angle = Math.PI / 2 + (i * Math.PI) / 5;
+        const r = i % 2 === 0 ? outer : inner;
+        return [r * Math.cos(angle), r * Math.sin(angle)];
+    });
+};
+
+// Classic parametric heart curve
+const heartOutline = (steps: number): [number, number][] => {
+    return Array.from({ length: steps }, (_, i) => {
+        const t = (i / steps) * Math.PI * 2;
+        return [
+            16 * Math.pow(Math.sin(t), 3),
+            13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t)
+        ];
+    });
+};
+
+// -- Fitting --
+
+interface Bounds {
+    min: [number, number, number];
+    max: [number, number, number];
+}
+
+const volumeBounds = (volume: ShapeVolume): Bounds => {
+    if (volume.type === 'sphere') {
+        const [x, y, z] = volume.center;
+        return { min: [x - volume.radius, y - volume.radius, z - volume.radius], max: [x + volume.radius, y + volume.radius, z + volume.radius] };
+    }
+    if (volume.type === 'box') {
+        const [x, y, z] = volume.center;
+        const [w, h, d] = volume.size;
+        return { min: [x - w / 2, y - h / 2, z - d / 2], max: [x + w / 2, y + h / 2, z + d / 2] };
+    }
+    const [cx, cy, cz] = volume.center ?? [0, 0, 0];
+    const xs = volume.points.map(p => p[0] + cx);
+    const ys = volume.points.map(p => p[1] + cy);
+    return { min: [Math.min(...xs), Math.min(...ys), cz - volume.depth / 2], max: [Math.max(...xs), Math.max(...ys), cz + volume.depth / 2] };
+};
+
+const shapeBounds = (shape: CustomShape): Bounds => {
+    const all = shape.volumes.map(volumeBounds);
+    if (shape.profile.length > 0) {
+        const radius = Math.max(...shape.profile.map(p => p.radius));
+        all.push({ min: [-radius, shape.profile[0].y, -radius], max: [radius, shape.profile[shape.profile.length - 1].y, radius] });
+    }
+    return {
+        min: [0, 1, 2].map(i => Math.min(...all.map(b => b.min[i]))) as [number, number, number],
+        max: [0, 1, 2].map(i => Math.max(...all.map(b => b.max[i]))) as [number, number, number]
+    };
+};
+
+// Scale uniformly to the tree's height (narrower if it's very wide), standing on the ground at x = z = 0
+export const fitShape = (shape: CustomShape): CustomShape => {
+    const { min, max } = shapeBounds(shape);
+    const width = Math.max(max[0] - min[0], max[2] - min[2]);
+    const height = max[1] - min[1];
+    const scale = Math.min(SHAPE_HEIGHT / Math.max(height, 1e-6), SHAPE_MAX_WIDTH / Math.max(width, 1e-6));
+    // The profile spins around the y axis, so only volumes-only shapes are re-centred sideways
+    const offsetX = shape.profile.length > 0 ? 0 : -(min[0] + max[0]) / 2;
+    const offsetZ = shape.profile.length > 0 ? 0 : -(min[2] + max[2]) / 2;
+    const move = ([x, y, z]: [number, number, number]): [number, number, number] => [
+        (x + offsetX) * scale,
+        (y - min[1]) * scale + SHAPE_BOTTOM,
+        (z + offsetZ) * scale
+    ];
+
+    return {
+        ...shape,
+        profile: shape.profile.map(p => ({ y: (p.y - min[1]) * scale + SHAPE_BOTTOM, radius: p.radius * scale })),
+        volumes: shape.volumes.map((volume): ShapeVolume => {
+            if (volume.type === 'sphere') return { ...volume, center: move(volume.center), radius: volume.radius * scale };
+            if (volume.type === 'box') return { ...volume, center: move(volume.center), size: volume.size.map(v => v * scale) as [number, number, number] };
+            return {
+                ...volume,
+                points: volume.points.map(([x, y]) => [x * scale, y * scale] as [number, number]),
+                depth: volume.depth * scale,
+                center: move(volume.center ?? [0, 0, 0])
+            };
+        })
+    };
+};
+
+export const PRESET_SHAPES: CustomShape[] = [
+    fitShape({ id: 'preset-star', name: 'Star', profile: [], volumes: [{ type: 'extrude', points: starOutline(9, 3.8), depth: 3 }] }),
+    fitShape({ id: 'preset-heart', name: 'Heart', profile: [], volumes: [{ type: 'extrude', points: heartOutline(64), depth: 6 }] })
+];
+
+const createShapeId = () => `shape-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Read a shape definition (JSON) chosen by the user. Throws an Error with a bilingual message when it can't be used.
+export const importShapeFile = async (file: Blob, fallbackName: string): Promise<CustomShape> => {
+    if (file.size > MAX_SHAPE_FILE_BYTES) {
+        throw new Error("造型文件太大 (最大 1 MB)。\nThe shape file is too large (1 MB max).");
+    }
+    let raw: unknown;
+    try {
+        raw = JSON.parse(await file.text());
+    } catch {
+        throw new Error("无法读取造型文件，请选择 JSON 文件。\nCould not read the shape file. Please choose a JSON file.");
+    }
+    const named = raw && typeof raw === 'object' ? { name: fallbackName, ...raw, id: createShapeId() } : raw;
+    const shape = normalizeCustomShape(named);
+    if (!shape || shapeParts(shape).length === 0) {
+        throw new Error("造型文件中没有可用的轮廓或形体。\nThe shape file has no usable profile or volumes.");
+    }
+    return fitShape(shape);
+};
+
+// -- Sampling --
+// The Tree samples these for foliage, lights, decorations, photo placement and the topper
+
+interface ShapePart {
+    weight: number; // Approximate volume, so every part gets an even point density
+    color?: string;
+    sample: () => [number, number, number];
+}
+
+const PROFILE_STEPS = 100;
+
+const profileRadiusAt = (profile: ShapeProfilePoint[], y: number): number => {
+    if (profile.length < 2 || y < profile[0].y || y > profile[profile.length - 1].y) return 0;
+    const i = Math.max(1, profile.findIndex(p => p.y >= y));
+    const a = profile[i - 1];
+    const b = profile[i];
+    const t = b.y > a.y ? (y - a.y) / (b.y - a.y) : 0;
+    return a.radius + (b.radius - a.radius) * t;
+};
+
+// Even-odd rule
+const insideOutline = (points: [number, number][], x: number, y: number): boolean => {
+    let inside = false;
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+        const [xi, yi] = points[i];
+        const [xj, yj] = points[j];
+        if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+    }
+    return inside;
+};
+
+const profilePart = (shape: CustomShape): ShapePart | null => {
+    const { profile } = shape;
+    if (profile.length < 2) return null;
+    const bottom = profile[0].y;
+    const dy = (profile[profile.length - 1].y - bottom) / PROFILE_STEPS;
+    // Cumulative disc volume per step, to pick heights in proportion to how much body is there
+    const cumulative = [0];
+    for (let s = 0; s < PROFILE_STEPS; s++) {
+        const r = profileRadiusAt(profile, bottom + (s + 0.5) * dy);
+        cumulative.push(cumulative[s] + Math.PI * r * r * dy);
+    }
+    const total = cumulative[PROFILE_STEPS];
+    if (total <= 0) return null;
+
+    return {
+        weight: total,
+        color: shape.profileColor,
+        sample: () => {
+            const target = Math.random() * total;
+            const step = Math.max(0, cumulative.findIndex(c => c >= target) - 1);
+            const y = bottom + (step + Math.random()) * dy;
+            // Same mix as the classic tree: some fill, mostly towards the surface
+            const rMax = profileRadiusAt(profile, y);
+            const r = Math.random() < 0.4 ? rMax * Math.random() * 0.5 : rMax * Math.sqrt(Math.random());
+            const theta = Math.random() * Math.PI * 2;
+            return [r * Math.cos(theta), y, r * Math.sin(theta)];
+        }
+    };
+};
+
+const volumePart = (volume: ShapeVolume): ShapePart => {
+    if (volume.type === 'sphere') {
+        const [cx, cy, cz] = volume.center;
+        return {
+            weight: (4 / 3) * Math.PI * Math.pow(volume.radius, 3),
+            color: volume.color,
+            sample: () => {
+                // Uniform in the ball: random direction, radius ~ cbrt(u)
+                const u = Math.random() * 2 - 1;
+                const theta = Math.random() * Math.PI * 2;
+                const r = volume.radius * Math.cbrt(Math.random());
+                const s = Math.sqrt(1 - u * u);
+                return [cx + r * s * Math.cos(theta), cy + r * u, cz + r * s * Math.sin(theta)];
+            }
+        };
+    }
+    if (volume.type === 'box') {
+        const [cx, cy, cz] = volume.center;
+        const [w, h, d] = volume.size;
+        return {
+            weight: w * h * d,
+            color: volume.color,
+            sample: () => [cx + (Math.random() - 0.5) * w, cy + (Math.random() - 0.5) * h, cz + (Math.random() - 0.5) * d]
+        };
+    }
+
+    const [cx, cy, cz] = volume.center ?? [0, 0, 0];
+    const xs = volume.points.map(p => p[0]);
+    const ys = volume.points.map(p => p[1]);
+    const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+    return {
+        weight: outlineArea(volume.points) * volume.depth,
+        color: volume.color,
+        sample: () => {
+            // Rejection sampling inside the outline; thin outlines may need a few tries
+            let x = 0, y = 0;
+            for (let tries = 0; tries < 100; tries++) {
+                x = minX + Math.random() * (maxX - minX);
+                y = minY + Math.random() * (maxY - minY);
+                if (insideOutline(volume.points, x, y)) break;
+            }
+            return [cx + x, cy + y, cz + (Math.random() - 0.5) * volume.depth];
+        }
+    };
+};
+
+// Horizontal reach of a volume at height y (distance from the tree's axis)
+const volumeReachAt = (volume: ShapeVolume, y: number): number => {
+    if (volume.type === 'sphere') {
+        const [cx, cy, cz] = volume.center;
+        const dy = y - cy;
+        if (Math.abs(dy) > volume.radius) return 0;
+        return Math.hypot(cx, cz) + Math.sqrt(volume.radius * volume.radius - dy * dy);
+    }
+    if (volume.type === 'box') {
+        const [cx, cy, cz] = volume.center;
+        const [w, h, d] = volume.size;
+        if (Math.abs(y - cy) > h / 2) return 0;
+        return Math.hypot(Math.abs(cx) + w / 2, Math.abs(cz) + d / 2);
+    }
+    // Widest point where the outline crosses this height
+    const [cx, cy, cz] = volume.center ?? [0, 0, 0];
+    const localY = y - cy;
+    let reach = -1;
+    for (let i = 0, j = volume.points.length - 1; i < volume.points.length; j = i++) {
+        const [xi, yi] = volume.points[i];
+        const [xj, yj] = volume.points[j];
+        if ((yi > localY) === (yj > localY)) continue;
+        const x = xi + ((localY - yi) / (yj - yi)) * (xj - xi);
+        reach = Math.max(reach, Math.abs(cx + x));
+    }
+    return reach < 0 ? 0 : Math.hypot(reach, Math.abs(cz) + volume.depth / 2);
+};
+
+export interface ShapeSampler {
+    // A random point inside the shape, with the colour of the part it landed in (if the file set one)
+    sample: () => { position: [number, number, number]; color?: string };
+    radiusAt: (y: number) => number;
+    top: number;
+    bottom: number;
+}
+
+// Parts with some volume to put points in
+const shapeParts = (shape: CustomShape): ShapePart[] => {
+    return [profilePart(shape), ...shape.volumes.map(volumePart)].filter((p): p is ShapePart => !!p && p.weight > 0);
+};
+
+export const createShapeSampler = (shape: CustomShape): ShapeSampler => {
+    const parts = shapeParts(shape);
+    const total = parts.reduce((sum, p) => sum + p.weight, 0);
+    const { min, max } = shapeBounds(shape);
+
+    const sample = () => {
+        let pick = Math.random() * total;
+        const part = parts.find(p => (pick -= p.weight) <= 0) ?? parts[parts.length - 1];
+        return part ? { position: part.sample(), color: part.color } : { position: [0, 0, 0] as [number, number, number] };
+    };
+
+    const radiusAt = (y: number) => Math.max(profileRadiusAt(shape.profile, y), ...shape.volumes.map(v => volumeReachAt(v, y)));
+
+    return { sample, radiusAt, top: max[1], bottom: min[1] };
+};
@@ -0,0 +1,94 @@
+// Minimal EXIF reader for JPEG files - only the tags the app uses
+
+export interface ExifData {
+    orientation?: number;      // 1-8, see EXIF spec
+    dateTimeOriginal?: string; // Raw 'YYYY:MM:DD HH:MM:SS'
+}
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+
+// EXIF lives in the APP1 segment near the start of the file
+const EXIF_SCAN_BYTES = 128 * 1024;
+
+const readAscii = (view: DataView, offset: number, length: number): string => {
+    let text = '';
+    for (let i = 0; i < length && offset + i < view.byteLength; i++) {
+        const code = view.getUint8(offset + i);
+        if (code === 0) break;
+        text += String.fromCharCode(code);
+    }
+    return text;
+};
+
+// Read the entries of one IFD into a tag -> value map (SHORT, LONG and ASCII only)
+const readIFD = (view: DataView, tiffStart: number, ifdOffset: number, little: boolean): Map<number, number | string> => {
+    const tags = new Map<number, number | string>();
+    const start = tiffStart + ifdOffset;
+    if (start + 2 > view.byteLength) return tags;
+
+    const count = view.getUint16(start, little);
+    for (let i = 0; i < count; i++) {
+        const entry = start + 2 + i * 12;
+        if (entry + 12 > view.byteLength) break;
+        const tag = view.getUint16(entry, little);
+        const type = view.getUint16(entry + 2, little);
+        const length = view.getUint32(entry + 4, little);
+
+        if (type === 3) tags.set(tag, view.getUint16(entry + 8, little));
+        else if (type === 4) tags.set(tag, view.getUint32(entry + 8, little));
+        else if (type === 2) {
+            // Strings longer than 4 bytes are stored at an offset
+            const valueOffset = length > 4 ? tiffStart + view.getUint32(entry + 8, little) : entry + 8;
+            tags.set(tag, readAscii(view, valueOffset, length));
+        }
+    }
+    return tags;
+};
+
+export const readExif = async (file: Blob): Promise<ExifData> => {
+    const view = new DataView(await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer());
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xFFD8) return {}; // Not a JPEG
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+        const marker = view.getUint16(offset);
+        if ((marker & 0xFF00) !== 0xFF00 || marker === 0xFFDA) break; // Start of scan - no more metadata
+        const size = view.getUint16(offset + 2);
+
+        // APP1 segment starting with "Exif\0\0"
+        if (marker === 0xFFE1 && readAscii(view, offset + 4, 4) === 'Exif') {
+            const tiffStart = offset + 10;
+            if (tiffStart + 8 > view.byteLength) return {};
+            const little = view.getUint16(tiffStart) === 0x4949; // 'II'
+            const ifd0 = readIFD(view, tiffStart, view.getUint32(tiffStart + 4, little), little);
+
+            const exifPointer = ifd0.get(TAG_EXIF_IFD);
+            const exifIFD = typeof exifPointer === 'number' ? readIFD(view, tiffStart, exifPointer, little) : new Map();
+
+            const orientation = ifd0.get(TAG_ORIENTATION);
+            const date = exifIFD.get(TAG_DATE_TIME_ORIGINAL) ?? ifd0.get(TAG_DATE_TIME);
+            return {
+                orientation: typeof orientation === 'number' ? orientation : undefined,
+                dateTimeOriginal: typeof date === 'string' && date.trim() ? date : undefined
+            };
+        }
+        offset += 2 + size;
+    }
+    return {};
+};
+
+// Date the photo was taken as 'YYYY-MM-DD', if the file carries one
+export const readTakenAt = async (file: Blob): Promise<string | undefined> => {
+    try {
+        const { dateTimeOriginal } = await readExif(file);
+        const match = dateTimeOriginal && /^(\d{4}):(\d{2}):(\d{2})/.exec(dateTimeOriginal);
+        if (!match || match[1] === '0000') return undefined;
+        return `${match[1]}-${match[2]}-${match[3]}`;
+    } catch (e) {
+        console.warn("Could not read EXIF", e);
+        return undefined;
+    }
+};
@@ -0,0 +1,62 @@
+import { FaceDetector, ImageSource } from '@mediapipe/tasks-vision';
+import { FocalPoint } from "../types";
+import { loadVisionFileset, mediapipeModelUrl } from './vision';
+import { loadImage } from './imagePipeline';
+
+const FACE_MODEL_URL = mediapipeModelUrl("blaze_face_short_range.tflite");
+
+let detectorPromise: Promise<FaceDetector | null> | null = null;
+
+// Created on first use; resolves to null if the model can't load so uploads still work
+const getFaceDetector = (): Promise<FaceDetector | null> => {
+    if (!detectorPromise) {
+        detectorPromise = loadVisionFileset()
+            .then(vision => FaceDetector.createFromOptions(vision, {
+                baseOptions: { modelAssetPath: FACE_MODEL_URL, delegate: "CPU" },
+                runningMode: "IMAGE",
+                minDetectionConfidence: 0.5
+            }))
+            .catch((err) => {
+                console.warn("Face detection unavailable, photos will be center-cropped", err);
+                return null;
+            });
+    }
+    return detectorPromise;
+};
+
+// Centre of the box around every detected face (0-1, top-left origin), or undefined if none.
+// Works in the image workers too - uploads pass the downsized canvas there.
+export const detectImageFocalPoint = async (image: ImageSource, width: number, height: number): Promise<FocalPoint | undefined> => {
+    const detector = await getFaceDetector();
+    if (!detector) return undefined;
+
+    try {
+        const boxes = detector.detect(image).detections
+            .map(d => d.boundingBox)
+            .filter((box): box is NonNullable<typeof box> => !!box);
+        if (boxes.length === 0) return undefined;
+
+        const left = Math.min(...boxes.map(b => b.originX));
+        const top = Math.min(...boxes.map(b => b.originY));
+        const right = Math.max(...boxes.map(b => b.originX + b.width));
+        const bottom = Math.max(...boxes.map(b => b.originY + b.height));
+        return {
+            x: Math.min(1, Math.max(0, (left + right) / 2 / width)),
+            y: Math.min(1, Math.max(0, (top + bottom) / 2 / height))
+        };
+    } catch (err) {
+        console.warn("Face detection failed", err);
+        return undefined;
+    }
+};
+
+// Main-thread version for a single photo, animated images and browsers without workers
+export const detectFocalPoint = async (blob: Blob): Promise<FocalPoint | undefined> => {
+    try {
+        const img = await loadImage(blob);
+        return detectImageFocalPoint(img, img.naturalWidth, img.naturalHeight);
+    } catch (err) {
+        console.warn("Face detection failed", err);
+        return undefined;
+    }
+};
@@ -1,30 +1,132 @@
+import { GestureRecognizer, GestureRecognizerResult } from '@mediapipe/tasks-vision';
+import { GestureTrigger, GestureType, PoseGesture } from "../types";
+import { loadVisionFileset, mediapipeModelUrl } from './vision';
+import { DEFAULT_GESTURE_CALIBRATION, GESTURE_CATEGORIES } from './schema';
+import type { GestureWorkerCall, GestureWorkerRequest, GestureWorkerResponse } from './gestureWorker';
 
-import { FilesetResolver, GestureRecognizer, GestureRecognizerResult } from '@mediapipe/tasks-vision';
-import { GestureType } from "../types";
+export type GestureDelegate = 'GPU' | 'CPU';
+
+export const handConfidenceOptions = (handConfidence: number) => ({
+  minHandDetectionConfidence: handConfidence,
+  minHandPresenceConfidence: handConfidence,
+  minTrackingConfidence: handConfidence
+});
+
+// Try each delegate in order (GPU first by default). Shared by the worker and the main-thread fallback.
+export const createGestureRecognizer = async (
+  handConfidence: number,
+  delegates: GestureDelegate[] = ['GPU', 'CPU']
+): Promise<{ recognizer: GestureRecognizer; delegate: GestureDelegate }> => {
+  const vision = await loadVisionFileset();
+  let lastError: unknown;
+  for (const delegate of delegates) {
+    try {
+      const recognizer = await GestureRecognizer.createFromOptions(vision, {
+        baseOptions: {
+          modelAssetPath: mediapipeModelUrl("gesture_recognizer.task"),
+          delegate
+        },
+        runningMode: "VIDEO",
+        numHands: 2,
+        ...handConfidenceOptions(handConfidence)
+      });
+      return { recognizer, delegate };
+    } catch (error) {
+      console.warn(`Gesture recognizer failed on ${delegate}`, error);
+      lastError = error;
+    }
+  }
+  throw lastError;
+};
+
+// -- Recognition Backends --
+// Preferably a worker (frames are sent as ImageBitmaps, so the render loop never waits on
+// the model); the main thread is the fallback where workers or ImageBitmap are missing.
 
 let gestureRecognizer: GestureRecognizer | null = null;
-let runningMode: "IMAGE" | "VIDEO" = "VIDEO";
+let gestureWorker: Worker | null = null;
+let pendingDetection: ((frame: HandFrame | null) => void) | null = null;
+let currentHandConfidence = DEFAULT_GESTURE_CALIBRATION.handConfidence; // To rebuild after a worker crash
+let onDetectionLost: (() => void) | null = null;
+// Other requests with one reply each (body triggers share the worker), by request id
+const pendingCalls = new Map<number, (response: GestureWorkerResponse | null) => void>();
+let nextCallId = 0;
 
-export const initializeHandDetection = async (): Promise<boolean> => {
+const supportsGestureWorker = () => typeof Worker !== 'undefined' && typeof createImageBitmap !== 'undefined';
+
+// The worker died mid-session: build the recognizer here so gestures keep working
+const fallBackToMainThread = async () => {
   try {
-    console.log("Initializing MediaPipe Hand Detection...");
-    const vision = await FilesetResolver.forVisionTasks(
-      "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.14/wasm"
-    );
-    
-    gestureRecognizer = await GestureRecognizer.createFromOptions(vision, {
-      baseOptions: {
-        modelAssetPath:
-          "https://storage.googleapis.com/mediapipe-models/gesture_recognizer/gesture_recognizer/float16/1/gesture_recognizer.task",
-        delegate: "CPU", 
-      },
-      runningMode: runningMode,
-      numHands: 1,
-      minHandDetectionConfidence: 0.3,
-      minHandPresenceConfidence: 0.3,
-      minTrackingConfidence: 0.3
-    });
-    console.log("MediaPipe Hand Detection Initialized Successfully");
+    const { recognizer, delegate } = await createGestureRecognizer(currentHandConfidence);
+    gestureRecognizer = recognizer;
+    console.warn(`Hand detection continues on the main thread (${delegate})`);
+  } catch (error) {
+    console.error("Hand detection lost:", error);
+    onDetectionLost?.();
+  }
+};
+
+const startGestureWorker = (handConfidence: number): Promise<GestureDelegate> => {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./gestureWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<GestureWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'ready') {
+        gestureWorker = worker;
+        resolve(message.delegate);
+      } else if (message.type === 'failed') {
+        worker.terminate();
+        reject(new Error(message.message));
+      } else if (message.type === 'hands') {
+        pendingDetection?.(message.frame);
+        pendingDetection = null;
+      } else {
+        pendingCalls.get(message.id)?.(message);
+        pendingCalls.delete(message.id);
+      }
+    };
+    worker.onerror = (event) => {
+      // Before 'ready' this fails the start; afterwards detection moves to the main thread
+      console.error("Gesture worker crashed", event);
+      worker.terminate();
+      if (gestureWorker !== worker) {
+        reject(new Error(event.message));
+        return;
+      }
+      gestureWorker = null;
+      pendingDetection?.(null);
+      pendingDetection = null;
+      pendingCalls.forEach(resolve => resolve(null));
+      pendingCalls.clear();
+      fallBackToMainThread();
+    };
+    const request: GestureWorkerRequest = { type: 'init', handConfidence };
+    worker.postMessage(request);
+  });
+};
+
+// `onLost` is called if detection stops working after a successful start
+export const initializeHandDetection = async (
+  handConfidence = DEFAULT_GESTURE_CALIBRATION.handConfidence,
+  onLost?: () => void
+): Promise<boolean> => {
+  console.log("Initializing MediaPipe Hand Detection...");
+  currentHandConfidence = handConfidence;
+  onDetectionLost = onLost ?? null;
+  if (supportsGestureWorker()) {
+    try {
+      const delegate = await startGestureWorker(handConfidence);
+      console.log(`MediaPipe Hand Detection Initialized Successfully (worker, ${delegate})`);
+      return true;
+    } catch (error) {
+      console.warn("Gesture worker unavailable, running on the main thread", error);
+    }
+  }
+
+  try {
+    const { recognizer, delegate } = await createGestureRecognizer(handConfidence);
+    gestureRecognizer = recognizer;
+    console.log(`MediaPipe Hand Detection Initialized Successfully (main thread, ${delegate})`);
     return true;
   } catch (error) {
     console.error("Failed to initialize hand detection:", error);
@@ -32,46 +134,298 @@ export const initializeHandDetection = async (): Promise<boolean> => {
   }
 };
 
-export const detectHands = (video: HTMLVideoElement): { x: number; gesture: GestureType } | null => {
-  if (!gestureRecognizer) return null;
+export const isGestureWorkerRunning = (): boolean => gestureWorker !== null;
+
+// Send a request that gets one reply. Null when no worker runs; resolves to null if it crashes first.
+export const callGestureWorker = (
+  build: (id: number) => GestureWorkerCall,
+  transfer: Transferable[] = []
+): Promise<GestureWorkerResponse | null> | null => {
+  const worker = gestureWorker;
+  if (!worker) return null;
+  const id = nextCallId++;
+  return new Promise(resolve => {
+    pendingCalls.set(id, resolve);
+    worker.postMessage(build(id), transfer);
+  });
+};
+
+// Change the hand confidences without reloading the model (calibration)
+export const setHandConfidence = async (handConfidence: number): Promise<void> => {
+  currentHandConfidence = handConfidence;
+  if (gestureWorker) {
+    const request: GestureWorkerRequest = { type: 'setConfidence', handConfidence };
+    gestureWorker.postMessage(request);
+    return;
+  }
+  if (!gestureRecognizer) return;
+  try {
+    await gestureRecognizer.setOptions(handConfidenceOptions(handConfidence));
+  } catch (error) {
+    console.error("Failed to update hand detection confidence:", error);
+  }
+};
+
+// -- Hand Landmarks --
+
+export interface HandLandmark {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface TrackedHand {
+  handedness: 'Left' | 'Right';
+  gesture: GestureType;
+  score: number; // Gesture category score
+  handScore: number; // How sure the model is that this is a hand
+  landmarks: HandLandmark[]; // 21 points in image space (0-1), mirrored to match the selfie view
+  worldLandmarks: HandLandmark[]; // Metres, origin at the hand's centre
+}
+
+export interface HandFrame {
+  hands: TrackedHand[];
+  // Shortcuts for the first hand
+  gesture: GestureType;
+  x: number; // Rough palm centre X (0 to 1)
+}
+
+// MediaPipe hand landmark indices
+export const WRIST = 0;
+export const THUMB_TIP = 4;
+export const INDEX_TIP = 8;
+export const MIDDLE_MCP = 9;
+// Landmark index pairs to draw the hand skeleton
+export const HAND_CONNECTIONS: { start: number; end: number }[] = GestureRecognizer.HAND_CONNECTIONS;
+const CURLABLE_FINGERS = [[10, 12], [14, 16], [18, 20]]; // [PIP, TIP] for middle, ring, pinky
+
+const distance2D = (a: HandLandmark, b: HandLandmark) => Math.hypot(a.x - b.x, a.y - b.y);
+
+export const palmCenter = (hand: TrackedHand): { x: number; y: number } => ({
+  x: (hand.landmarks[WRIST].x + hand.landmarks[MIDDLE_MCP].x) / 2,
+  y: (hand.landmarks[WRIST].y + hand.landmarks[MIDDLE_MCP].y) / 2
+});
+
+// Thumb-index tip gap relative to palm length, so it doesn't change with distance to the camera.
+// About 0.1 when touching, above 1 when spread wide.
+export const pinchDistance = (hand: TrackedHand): number => {
+  const palm = distance2D(hand.landmarks[WRIST], hand.landmarks[MIDDLE_MCP]);
+  return palm > 0 ? distance2D(hand.landmarks[THUMB_TIP], hand.landmarks[INDEX_TIP]) / palm : 1;
+};
+
+// Middle, ring and pinky folded (tip closer to the wrist than the middle joint)
+const otherFingersCurled = (hand: TrackedHand): boolean => {
+  const wrist = hand.landmarks[WRIST];
+  return CURLABLE_FINGERS.every(([pip, tip]) => distance2D(hand.landmarks[tip], wrist) < distance2D(hand.landmarks[pip], wrist));
+};
+
+// "OK" pinch: thumb and index touching with the other fingers up (the folded version is the zoom pinch)
+export const isPinching = (hand: TrackedHand): boolean => pinchDistance(hand) < 0.25 && !otherFingersCurled(hand);
+
+// Thumb and index must touch to start a pinch zoom, so a pointing finger isn't read as one
+const PINCH_ZOOM_START = 0.3;
+
+// A zoom control in the frame: the gap between two hands, or a one-hand thumb-index pinch
+// (other fingers folded, so it doesn't fire during the named poses). Only the ratio of
+// `measure` to its starting value matters. `pinchActive`: a pinch zoom is running and may open up.
+export const readZoomGesture = (frame: HandFrame, pinchActive = false): { kind: 'twoHands' | 'pinch'; measure: number } | null => {
+  if (frame.hands.length >= 2) {
+    const a = palmCenter(frame.hands[0]);
+    const b = palmCenter(frame.hands[1]);
+    return { kind: 'twoHands', measure: Math.max(0.01, Math.hypot(a.x - b.x, a.y - b.y)) };
+  }
+  const hand = frame.hands[0];
+  if (!hand || hand.gesture !== 'None' || !otherFingersCurled(hand)) return null;
+  const distance = pinchDistance(hand);
+  if (!pinchActive && distance >= PINCH_ZOOM_START) return null;
+  return { kind: 'pinch', measure: Math.max(0.05, distance) };
+};
+
+// Convert a MediaPipe result into our hands (mirrored to match the selfie view)
+export const toHandFrame = (result: GestureRecognizerResult): HandFrame | null => {
+  const hands: TrackedHand[] = result.landmarks.map((landmarks, i) => {
+    const top = result.gestures[i]?.[0];
+    return {
+      handedness: result.handedness[i]?.[0]?.categoryName === 'Left' ? 'Left' : 'Right',
+      // Map MediaPipe categories to our types (unknown names count as no gesture)
+      gesture: GESTURE_CATEGORIES.find(c => c === top?.categoryName) ?? 'None',
+      score: top?.score ?? 0,
+      handScore: result.handedness[i]?.[0]?.score ?? 0,
+      landmarks: landmarks.map(l => ({ x: 1 - l.x, y: l.y, z: l.z })), // Mirror
+      worldLandmarks: (result.worldLandmarks[i] ?? []).map(l => ({ x: -l.x, y: l.y, z: l.z }))
+    };
+  });
+
+  if (hands.length === 0) return null;
+  return { hands, gesture: hands[0].gesture, x: palmCenter(hands[0]).x };
+};
+
+// Recognize the current video frame. Call again only after the previous call resolved.
+export const detectHands = async (video: HTMLVideoElement): Promise<HandFrame | null> => {
   if (!video.videoWidth || !video.videoHeight) return null;
 
-  // Use Date.now() for a safe, increasing timestamp
-  const startTimeMs = Date.now();
-  let result: GestureRecognizerResult;
-  
+  if (gestureWorker) {
+    const worker = gestureWorker;
+    let frame: ImageBitmap;
+    try {
+      frame = await createImageBitmap(video);
+    } catch (e) {
+      console.error("Could not capture camera frame:", e);
+      return null;
+    }
+    return new Promise(resolve => {
+      pendingDetection = resolve;
+      const request: GestureWorkerRequest = { type: 'detect', frame, timestamp: performance.now() };
+      worker.postMessage(request, [frame]);
+    });
+  }
+
+  if (!gestureRecognizer) return null;
   try {
-      result = gestureRecognizer.recognizeForVideo(video, startTimeMs);
+    // performance.now() is a safe, increasing timestamp
+    return toHandFrame(gestureRecognizer.recognizeForVideo(video, performance.now()));
   } catch(e) {
-      console.error("Gesture recognition error:", e);
-      return null;
+    console.error("Gesture recognition error:", e);
+    return null;
   }
+};
+
+// -- Gesture State Machine --
+// Raw frames flicker (Open_Palm, None, Open_Palm...). A gesture only 'enter's after scoring above
+// `enterScore` for `holdMs`, stays while above the lower `exitScore` (hysteresis), and only
+// 'exit's after `releaseMs` without it, so one lost frame doesn't end it.
+// Hands and the optional body detectors each run their own tracker.
+
+export interface GestureEvent {
+  type: 'enter' | 'hold' | 'exit';
+  gesture: GestureTrigger;
+  x: number; // Palm (or person) centre X (0 to 1) of the latest frame
+  heldMs: number; // Time since 'enter'
+}
+
+// One detector's top trigger in a frame
+export interface TriggerReading<T extends GestureTrigger> {
+  gesture: T | 'None';
+  score: number;
+  x: number;
+}
+
+export interface GestureThresholds {
+  enterScore: number;
+  exitScore: number;
+  holdMs: number;
+  releaseMs: number;
+}
+
+const BASE_THRESHOLDS: GestureThresholds = { enterScore: 0.6, exitScore: 0.4, holdMs: 150, releaseMs: 300 };
+
+// The model confuses these more often, so they need a clearer, longer pose
+export const GESTURE_THRESHOLDS: Record<PoseGesture, GestureThresholds> = {
+  Open_Palm: BASE_THRESHOLDS,
+  Closed_Fist: BASE_THRESHOLDS,
+  Victory: BASE_THRESHOLDS,
+  Pointing_Up: { ...BASE_THRESHOLDS, enterScore: 0.65 },
+  Thumb_Up: { ...BASE_THRESHOLDS, enterScore: 0.7, holdMs: 250 },
+  Thumb_Down: { ...BASE_THRESHOLDS, enterScore: 0.7, holdMs: 250 },
+  ILoveYou: { ...BASE_THRESHOLDS, enterScore: 0.7, holdMs: 250 }
+};
+
+export interface TriggerTracker<T extends GestureTrigger> {
+  // Feed every detection (null = nobody in view). Returns the events it caused, in order.
+  update: (reading: TriggerReading<T> | null, now: number) => GestureEvent[];
+  // End the active gesture immediately (e.g. when gestures are switched off)
+  reset: (now: number) => GestureEvent[];
+  // Calibrated enter scores; exit scores follow to keep the hysteresis gap
+  setEnterScores: (scores: Partial<Record<T, number>>) => void;
+}
 
-  if (result.gestures.length > 0) {
-    const categoryName = result.gestures[0][0].categoryName;
-    const score = result.gestures[0][0].score;
-    const landmarks = result.landmarks[0];
-    
-    // Calculate rough center X (0 to 1)
-    let x = 0;
-    if (landmarks) {
-        x = (landmarks[0].x + landmarks[9].x) / 2;
-        x = 1 - x; // Mirror
+export type GestureTracker = TriggerTracker<PoseGesture>;
+
+// The first hand's pose
+export const handReading = (frame: HandFrame | null): TriggerReading<PoseGesture> | null => {
+  return frame && { gesture: frame.gesture, score: frame.hands[0]?.score ?? 0, x: frame.x };
+};
+
+export const createGestureTracker = (): GestureTracker => createTriggerTracker(GESTURE_THRESHOLDS);
+
+export const createTriggerTracker = <T extends GestureTrigger>(baseThresholds: Record<T, GestureThresholds>): TriggerTracker<T> => {
+  let thresholds = baseThresholds;
+  let active: { gesture: T; since: number; lostSince: number | null } | null = null;
+  let candidate: { gesture: T; since: number } | null = null;
+  let lastX = 0.5;
+
+  const exit = (now: number): GestureEvent[] => {
+    if (!active) return [];
+    const event: GestureEvent = { type: 'exit', gesture: active.gesture, x: lastX, heldMs: now - active.since };
+    active = null;
+    return [event];
+  };
+
+  const update = (reading: TriggerReading<T> | null, now: number): GestureEvent[] => {
+    const events: GestureEvent[] = [];
+    const gesture = reading?.gesture ?? 'None';
+    const score = reading?.score ?? 0;
+    if (reading) lastX = reading.x;
+
+    if (active) {
+      if (gesture === active.gesture && score >= thresholds[active.gesture].exitScore) {
+        active.lostSince = null;
+      } else if (active.lostSince === null) {
+        active.lostSince = now;
+      }
+
+      if (active.lostSince !== null && now - active.lostSince >= thresholds[active.gesture].releaseMs) {
+        events.push(...exit(now));
+      } else {
+        return [{ type: 'hold', gesture: active.gesture, x: lastX, heldMs: now - active.since }];
+      }
     }
 
-    let gesture: GestureType = 'None';
-    
-    // Map MediaPipe categories to our types
-    if (categoryName === 'Open_Palm') gesture = 'Open_Palm';
-    else if (categoryName === 'Victory') gesture = 'Victory';
-    else if (categoryName === 'Closed_Fist') gesture = 'Closed_Fist';
-    else if (categoryName === 'None') gesture = 'None';
-    
-    // Optional: Log for debugging if needed
-    // console.log(`Detected: ${categoryName} (${score.toFixed(2)})`);
-
-    return { x, gesture };
-  }
+    if (gesture === 'None' || score < thresholds[gesture].enterScore) {
+      candidate = null;
+      return events;
+    }
+    if (candidate?.gesture !== gesture) candidate = { gesture, since: now };
+    if (now - candidate.since >= thresholds[gesture].holdMs) {
+      active = { gesture, since: now, lostSince: null };
+      candidate = null;
+      events.push({ type: 'enter', gesture, x: lastX, heldMs: 0 });
+    }
+    return events;
+  };
+
+  const reset = (now: number): GestureEvent[] => {
+    candidate = null;
+    return exit(now);
+  };
+
+  const setEnterScores = (scores: Partial<Record<T, number>>) => {
+    thresholds = { ...baseThresholds };
+    for (const gesture of Object.keys(scores) as T[]) {
+      const enterScore = scores[gesture]!;
+      thresholds[gesture] = { ...baseThresholds[gesture], enterScore, exitScore: Math.min(baseThresholds[gesture].exitScore, enterScore - 0.2) };
+    }
+  };
+
+  return { update, reset, setEnterScores };
+};
+
+// -- Calibration --
+// Built from scores recorded while the user holds each pose
+
+const percentile = (values: number[], p: number): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+};
+
+// Just under what the user's own pose reached, so it starts reliably without firing on look-alikes
+export const calibratedEnterScore = (scores: number[]): number | undefined => {
+  if (scores.length < 5) return undefined;
+  return Math.min(0.85, Math.max(0.4, percentile(scores, 0.5) * 0.8));
+};
 
-  return null;
+// Low enough to keep the weakest 10% of the user's hand frames
+export const calibratedHandConfidence = (handScores: number[]): number | undefined => {
+  if (handScores.length < 5) return undefined;
+  return Math.min(0.7, Math.max(0.2, percentile(handScores, 0.1) * 0.8));
 };
@@ -0,0 +1,81 @@
+// Runs in a module Worker: gesture recognition off the render thread, one frame per message
+import type { GestureRecognizer } from '@mediapipe/tasks-vision';
+import { BodyTriggerSettings } from "../types";
+import { GestureDelegate, HandFrame, createGestureRecognizer, handConfidenceOptions, toHandFrame } from './gesture';
+import { BodyDetector, BodyReadings, loadDetector, readBodyTriggers } from './bodyTriggers';
+import { allowImportScripts } from './vision';
+
+// Pose and face detection for the body triggers run here too, so no model blocks rendering
+export type GestureWorkerCall =
+    | { type: 'loadBody'; id: number; detector: BodyDetector }
+    | { type: 'detectBody'; id: number; frame: ImageBitmap; timestamp: number; enabled: BodyTriggerSettings };
+
+export type GestureWorkerRequest =
+    | { type: 'init'; handConfidence: number }
+    | { type: 'detect'; frame: ImageBitmap; timestamp: number }
+    | { type: 'setConfidence'; handConfidence: number }
+    | GestureWorkerCall;
+
+export type GestureWorkerResponse =
+    | { type: 'ready'; delegate: GestureDelegate }
+    | { type: 'failed'; message: string }
+    | { type: 'hands'; frame: HandFrame | null }
+    | { type: 'bodyLoaded'; id: number; loaded: boolean }
+    | { type: 'body'; id: number; readings: BodyReadings };
+
+allowImportScripts();
+
+let recognizer: GestureRecognizer | null = null;
+let delegate: GestureDelegate = 'CPU';
+let handConfidence = 0;
+
+const reply = (response: GestureWorkerResponse) => self.postMessage(response);
+
+const init = async () => {
+    try {
+        ({ recognizer, delegate } = await createGestureRecognizer(handConfidence));
+        reply({ type: 'ready', delegate });
+    } catch (error) {
+        reply({ type: 'failed', message: error instanceof Error ? error.message : String(error) });
+    }
+};
+
+const detect = async (frame: ImageBitmap, timestamp: number) => {
+    try {
+        reply({ type: 'hands', frame: recognizer ? toHandFrame(recognizer.recognizeForVideo(frame, timestamp)) : null });
+    } catch (error) {
+        console.error("Gesture recognition error:", error);
+        reply({ type: 'hands', frame: null });
+        // Some GPUs create the model but fail while running it - rebuild once on the CPU
+        if (delegate === 'GPU') {
+            recognizer?.close();
+            recognizer = null;
+            try {
+                ({ recognizer, delegate } = await createGestureRecognizer(handConfidence, ['CPU']));
+            } catch (cpuError) {
+                console.error("Gesture recognizer failed on CPU too", cpuError);
+            }
+        }
+    } finally {
+        frame.close();
+    }
+};
+
+self.onmessage = (event: MessageEvent<GestureWorkerRequest>) => {
+    const request = event.data;
+    if (request.type === 'init') {
+        handConfidence = request.handConfidence;
+        init();
+    } else if (request.type === 'detect') {
+        detect(request.frame, request.timestamp);
+    } else if (request.type === 'loadBody') {
+        loadDetector(request.detector, true).then(loaded => reply({ type: 'bodyLoaded', id: request.id, loaded }));
+    } else if (request.type === 'detectBody') {
+        reply({ type: 'body', id: request.id, readings: readBodyTriggers(request.frame, request.timestamp, request.enabled) });
+        request.frame.close();
+    } else {
+        handConfidence = request.handConfidence;
+        recognizer?.setOptions(handConfidenceOptions(handConfidence))
+            .catch(error => console.error("Failed to update hand detection confidence:", error));
+    }
+};
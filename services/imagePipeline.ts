@@ -0,0 +1,151 @@
+import { readExif } from './exif';
+
+// Limit textures to 1K to save GPU/RAM
+export const MAX_DIMENSION = 1024;
+export const JPEG_QUALITY = 0.85;
+
+export type ImageFormat = 'jpeg' | 'png' | 'gif' | 'webp' | 'avif' | 'heic' | 'bmp';
+
+const FORMAT_LABELS: Record<ImageFormat, string> = {
+    jpeg: 'JPEG', png: 'PNG', gif: 'GIF', webp: 'WebP', avif: 'AVIF', heic: 'HEIC', bmp: 'BMP'
+};
+
+// A file the upload pipeline refused, with a message for the user
+export interface SkippedFile {
+    name: string;
+    reason: string;
+}
+
+const ascii = (bytes: Uint8Array, start: number, length: number) => String.fromCharCode(...bytes.subarray(start, start + length));
+
+// Sniff the real format from the first bytes - extensions and MIME types lie (e.g. HEIC renamed to .jpg)
+export const detectImageFormat = async (file: Blob): Promise<ImageFormat | null> => {
+    const bytes = new Uint8Array(await file.slice(0, 64).arrayBuffer());
+    if (bytes.length < 12) return null;
+
+    if (bytes[0] === 0xFF && bytes[1] === 0xD8 && bytes[2] === 0xFF) return 'jpeg';
+    if (bytes[0] === 0x89 && ascii(bytes, 1, 3) === 'PNG') return 'png';
+    if (ascii(bytes, 0, 4) === 'GIF8') return 'gif';
+    if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'webp';
+    if (ascii(bytes, 0, 2) === 'BM') return 'bmp';
+
+    // ISO-BMFF ('ftyp' box): major brand plus compatible brands tell AVIF and HEIC apart
+    if (ascii(bytes, 4, 4) === 'ftyp') {
+        const boxSize = Math.min(bytes.length, (bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3]);
+        const brands: string[] = [ascii(bytes, 8, 4)];
+        for (let i = 16; i + 4 <= boxSize; i += 4) brands.push(ascii(bytes, i, 4));
+        if (brands.some(b => b === 'avif' || b === 'avis')) return 'avif';
+        if (brands.some(b => ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'].includes(b))) return 'heic';
+    }
+    return null;
+};
+
+export const loadImage = (blob: Blob): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = document.createElement('img');
+        const url = URL.createObjectURL(blob);
+        img.onload = () => {
+            URL.revokeObjectURL(url);
+            resolve(img);
+        };
+        img.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error("图片无法读取。\nThe image could not be read."));
+        };
+        img.src = url;
+    });
+};
+
+// Browsers that support `image-orientation` also apply EXIF rotation when drawing <img> to a canvas
+const browserAppliesOrientation = () => typeof CSS !== 'undefined' && CSS.supports('image-orientation', 'from-image');
+
+// Scale dimensions down to fit MAX_DIMENSION, keeping the aspect ratio
+export const fitWithin = (width: number, height: number): { width: number; height: number } => {
+    if (width <= MAX_DIMENSION && height <= MAX_DIMENSION) return { width, height };
+    const scale = MAX_DIMENSION / Math.max(width, height);
+    return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+export const unsupportedFormatError = () => new Error("不是支持的图片格式 (支持 JPEG、PNG、GIF、WebP、AVIF、HEIC)。\nNot a supported image (JPEG, PNG, GIF, WebP, AVIF, HEIC).");
+
+export const decodeError = (format: ImageFormat): Error => {
+    if (format === 'heic') {
+        return new Error("HEIC 照片无法解码，请先转换为 JPEG。\nThis HEIC photo could not be decoded. Please convert it to JPEG first.");
+    }
+    if (format === 'avif' || format === 'webp') {
+        return new Error(`此浏览器不支持 ${FORMAT_LABELS[format]} 图片，请转换为 JPEG 或 PNG。\nThis browser can't read ${FORMAT_LABELS[format]} images. Please convert to JPEG or PNG.`);
+    }
+    return new Error("图片已损坏或无法读取。\nThe image is damaged or could not be read.");
+};
+
+// Only Safari decodes HEIC natively - elsewhere convert it with libheif (loaded on first use, it's large).
+// libheif applies the HEIC rotation itself.
+const decodeHeic = async (file: Blob): Promise<HTMLImageElement> => {
+    const { default: heic2any } = await import('heic2any');
+    const converted = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.92 });
+    return loadImage(Array.isArray(converted) ? converted[0] : converted);
+};
+
+// Map EXIF orientation (1-8) onto the canvas so the drawn image comes out upright
+const applyOrientation = (ctx: CanvasRenderingContext2D, orientation: number, width: number, height: number) => {
+    switch (orientation) {
+        case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+        case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+        case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+        case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+        case 6: ctx.transform(0, 1, -1, 0, height, 0); break;
+        case 7: ctx.transform(0, -1, -1, 0, height, width); break;
+        case 8: ctx.transform(0, -1, 1, 0, 0, width); break;
+    }
+};
+
+// Validate, decode, orient and downsize an uploaded photo to a JPEG Blob.
+// Throws an Error with a bilingual message when the file can't be used.
+export const compressImage = async (file: Blob): Promise<Blob> => {
+    const format = await detectImageFormat(file);
+    if (!format) throw unsupportedFormatError();
+
+    let img: HTMLImageElement;
+    try {
+        img = await loadImage(file);
+    } catch {
+        if (format !== 'heic') throw decodeError(format);
+        try {
+            img = await decodeHeic(file);
+        } catch (err) {
+            console.warn("HEIC decoding failed", err);
+            throw decodeError(format);
+        }
+    }
+
+    const orientation = format === 'jpeg' && !browserAppliesOrientation()
+        ? (await readExif(file)).orientation ?? 1
+        : 1;
+
+    const { width, height } = fitWithin(img.naturalWidth, img.naturalHeight);
+
+    // Orientations 5-8 swap width and height
+    const sideways = orientation >= 5;
+    const canvas = document.createElement('canvas');
+    canvas.width = sideways ? height : width;
+    canvas.height = sideways ? width : height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("无法处理图片。\nCould not process the image.");
+
+    applyOrientation(ctx, orientation, width, height);
+    ctx.drawImage(img, 0, 0, width, height);
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(
+            blob => blob ? resolve(blob) : reject(new Error("图片压缩失败。\nCould not compress the image.")),
+            'image/jpeg',
+            JPEG_QUALITY
+        );
+    });
+};
+
+// One alert-friendly summary of every skipped file
+export const formatSkippedReport = (skipped: SkippedFile[]): string => {
+    const lines = skipped.map(s => `• ${s.name}\n   ${s.reason.replace(/\n/g, '\n   ')}`);
+    return `以下 ${skipped.length} 个文件未能导入 / ${skipped.length} file(s) were skipped:\n\n${lines.join('\n')}`;
+};
@@ -0,0 +1,57 @@
+// Runs in a module Worker: decode, downsize, find faces and re-encode one photo per message
+import { FocalPoint } from "../types";
+import { JPEG_QUALITY, fitWithin } from './imagePipeline';
+import { HASH_HEIGHT, HASH_WIDTH, dHashFromPixels } from './photoHash';
+import { detectImageFocalPoint } from './faceDetection';
+import { allowImportScripts } from './vision';
+
+export interface ImageWorkerRequest {
+    id: number;
+    file: Blob;
+}
+
+export type ImageWorkerResponse =
+    | { id: number; blob: Blob; hash?: string; focalPoint?: FocalPoint }
+    | { id: number; error: 'decode' | 'encode' };
+
+allowImportScripts();
+
+// Perceptual hash from the decoded bitmap, so the main thread doesn't decode it again
+const hashBitmap = (bitmap: ImageBitmap): string | undefined => {
+    const canvas = new OffscreenCanvas(HASH_WIDTH, HASH_HEIGHT);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return undefined;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+    return dHashFromPixels(ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT).data);
+};
+
+const handle = async ({ id, file }: ImageWorkerRequest): Promise<ImageWorkerResponse> => {
+    let bitmap: ImageBitmap;
+    try {
+        // 'from-image' applies the EXIF orientation while decoding
+        bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    } catch {
+        return { id, error: 'decode' };
+    }
+
+    try {
+        const { width, height } = fitWithin(bitmap.width, bitmap.height);
+        const canvas = new OffscreenCanvas(width, height);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return { id, error: 'encode' };
+        ctx.drawImage(bitmap, 0, 0, width, height);
+        const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality: JPEG_QUALITY });
+        // Faces are found on the downsized copy so coordinates match what's shown
+        const focalPoint = await detectImageFocalPoint(canvas, width, height);
+        return { id, blob, hash: hashBitmap(bitmap), focalPoint };
+    } catch {
+        return { id, error: 'encode' };
+    } finally {
+        bitmap.close();
+    }
+};
+
+self.onmessage = async (event: MessageEvent<ImageWorkerRequest>) => {
+    self.postMessage(await handle(event.data));
+};
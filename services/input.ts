@@ -0,0 +1,267 @@
+import { BodyTrigger, GestureAction, GestureMapping, GestureTrigger } from "../types";
+import { BODY_TRIGGERS } from './schema';
+import type { GestureEvent } from './gesture';
+
+// -- Input Actions --
+// Every input source (gestures, wheel, touch, mouse, keyboard, gamepad) is translated into these
+// named actions, and App runs them in one place. A new source only needs a translator here.
+
+export type InputSource = 'gesture' | 'wheel' | 'touch' | 'mouse' | 'keyboard' | 'gamepad';
+
+export type InputAction =
+    | { type: 'explode' | 'collapse' | 'toggleExplode' }
+    | { type: 'twinkle'; on: boolean } // Held disco effect
+    | { type: 'sparkle' } // Short twinkle burst
+    | { type: 'nextColor' | 'nextShape' | 'focusRandom' | 'toggleAlbum' | 'startRecording' | 'toggleMusic' }
+    | { type: 'close' } // Leave the focus view / album, or collapse the tree
+    | { type: 'rotate'; speed: number }; // Tree spin speed, 0 stops
+
+// -- Wheel --
+// Scrolling up explodes, down collapses. Deltas add up until they pass the threshold, and
+// reset after a short pause so slow scrolling doesn't trigger by accident.
+const WHEEL_THRESHOLD = 500;
+const WHEEL_RESET_MS = 200;
+
+export const createWheelInput = () => {
+    let accumulated = 0;
+    let lastAt = -Infinity;
+
+    const update = (deltaY: number, now: number): InputAction[] => {
+        if (now - lastAt > WHEEL_RESET_MS) accumulated = 0;
+        lastAt = now;
+        accumulated += deltaY;
+        if (Math.abs(accumulated) < WHEEL_THRESHOLD) return [];
+        const action: InputAction = { type: accumulated < 0 ? 'explode' : 'collapse' };
+        accumulated = 0;
+        return [action];
+    };
+
+    return { update };
+};
+
+// -- Touch --
+// Swipe up explodes, down collapses; one action per touch
+const SWIPE_THRESHOLD = 150;
+
+export const createSwipeInput = () => {
+    let startY: number | null = null;
+
+    const start = (y: number) => {
+        startY = y;
+    };
+
+    const move = (y: number): InputAction[] => {
+        if (startY === null) return [];
+        const diff = startY - y;
+        if (Math.abs(diff) < SWIPE_THRESHOLD) return [];
+        startY = null;
+        return [{ type: diff > 0 ? 'explode' : 'collapse' }];
+    };
+
+    return { start, move };
+};
+
+// -- Keyboard --
+
+const KEYBOARD_ROTATE_SPEED = 2;
+
+// Shown in the settings panel, so every action stays reachable without a mouse or camera
+export const KEYBOARD_SHORTCUTS: { keys: string[]; label: string; action: InputAction }[] = [
+    { keys: [' '], label: '散开/收起 / Explode / collapse', action: { type: 'toggleExplode' } },
+    { keys: ['ArrowUp'], label: '散开 / Explode', action: { type: 'explode' } },
+    { keys: ['ArrowDown'], label: '收起 / Collapse', action: { type: 'collapse' } },
+    { keys: ['ArrowLeft', 'ArrowRight'], label: '旋转 (按住) / Spin (hold)', action: { type: 'rotate', speed: KEYBOARD_ROTATE_SPEED } },
+    { keys: ['c'], label: '下一个颜色 / Next color', action: { type: 'nextColor' } },
+    { keys: ['s'], label: '下一个造型 / Next shape', action: { type: 'nextShape' } },
+    { keys: ['t'], label: '闪光 / Sparkle', action: { type: 'sparkle' } },
+    { keys: ['r'], label: '随机照片 / Random photo', action: { type: 'focusRandom' } },
+    { keys: ['a'], label: '相册模式 / Album', action: { type: 'toggleAlbum' } },
+    { keys: ['m'], label: '播放/暂停音乐 / Music', action: { type: 'toggleMusic' } },
+    { keys: ['Escape'], label: '返回 / Back', action: { type: 'close' } }
+];
+
+const KEY_LABELS: Record<string, string> = { ' ': 'Space', Escape: 'Esc', ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→' };
+
+// Display name for a key in the shortcut list
+export const keyLabel = (key: string): string => KEY_LABELS[key] ?? key.toUpperCase();
+
+const isTyping = (target: EventTarget | null): boolean => {
+    if (!(target instanceof HTMLElement)) return false;
+    return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+// Actions for a keydown / keyup. Shortcuts fire once per press, the spin lasts while its key is held.
+export const keyboardActions = (event: KeyboardEvent): InputAction[] => {
+    if (isTyping(event.target) || event.ctrlKey || event.metaKey || event.altKey) return [];
+    const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+    const shortcut = KEYBOARD_SHORTCUTS.find(s => s.keys.includes(key));
+    if (!shortcut) return [];
+    // Space on a focused button clicks it
+    if (key === ' ' && event.target instanceof HTMLButtonElement) return [];
+
+    if (shortcut.action.type === 'rotate') {
+        if (event.type === 'keyup') return [{ type: 'rotate', speed: 0 }];
+        return [{ type: 'rotate', speed: key === 'ArrowLeft' ? -KEYBOARD_ROTATE_SPEED : KEYBOARD_ROTATE_SPEED }];
+    }
+    return event.type === 'keydown' && !event.repeat ? [shortcut.action] : [];
+};
+
+// -- Gamepad --
+// Standard layout (Xbox names): A explode/collapse, B back, X colour, Y random photo,
+// LB sparkle, RB shape, Back music, Start album, D-pad up/down explode/collapse,
+// left stick or D-pad left/right spins the tree.
+
+const GAMEPAD_BUTTONS: Record<number, InputAction> = {
+    0: { type: 'toggleExplode' },
+    1: { type: 'close' },
+    2: { type: 'nextColor' },
+    3: { type: 'focusRandom' },
+    4: { type: 'sparkle' },
+    5: { type: 'nextShape' },
+    8: { type: 'toggleMusic' },
+    9: { type: 'toggleAlbum' },
+    12: { type: 'explode' },
+    13: { type: 'collapse' }
+};
+const DPAD_LEFT = 14;
+const DPAD_RIGHT = 15;
+const STICK_DEADZONE = 0.2;
+const GAMEPAD_ROTATE_SPEED = 3;
+
+export const createGamepadInput = () => {
+    let pressed = new Set<string>(); // `${pad}:${button}` held in the previous poll
+    let speed = 0;
+
+    // Read every connected pad; buttons fire once when pressed
+    const poll = (pads: (Gamepad | null)[]): InputAction[] => {
+        const actions: InputAction[] = [];
+        const nowPressed = new Set<string>();
+        let stick = 0;
+
+        for (const pad of pads) {
+            if (!pad) continue;
+            pad.buttons.forEach((button, i) => {
+                if (!button.pressed) return;
+                const id = `${pad.index}:${i}`;
+                nowPressed.add(id);
+                if (!pressed.has(id) && GAMEPAD_BUTTONS[i]) actions.push(GAMEPAD_BUTTONS[i]);
+            });
+            const x = pad.axes[0] ?? 0;
+            if (Math.abs(x) > STICK_DEADZONE) stick = x;
+            if (pad.buttons[DPAD_LEFT]?.pressed) stick = -1;
+            if (pad.buttons[DPAD_RIGHT]?.pressed) stick = 1;
+        }
+        pressed = nowPressed;
+
+        // Only report changes, so the stick doesn't fight other rotation sources while centred
+        const nextSpeed = Math.round(stick * GAMEPAD_ROTATE_SPEED * 10) / 10;
+        if (nextSpeed !== speed) {
+            speed = nextSpeed;
+            actions.push({ type: 'rotate', speed });
+        }
+        return actions;
+    };
+
+    // Stop the stick's spin (all pads gone), so it doesn't outlive the pad
+    const reset = (): InputAction[] => {
+        pressed = new Set();
+        if (speed === 0) return [];
+        speed = 0;
+        return [{ type: 'rotate', speed }];
+    };
+
+    return { poll, reset };
+};
+
+// Poll pads every animation frame while any is connected. Returns a cleanup function.
+export const watchGamepads = (input: ReturnType<typeof createGamepadInput>, onAction: (action: InputAction) => void): (() => void) => {
+    if (typeof navigator.getGamepads !== 'function') return () => {};
+    let frame = 0;
+
+    const poll = () => {
+        const pads = navigator.getGamepads();
+        input.poll(pads).forEach(onAction);
+        frame = pads.some(Boolean) ? requestAnimationFrame(poll) : 0;
+    };
+    const start = () => {
+        if (!frame) frame = requestAnimationFrame(poll);
+    };
+
+    const disconnected = () => {
+        if (navigator.getGamepads().some(Boolean)) return;
+        cancelAnimationFrame(frame);
+        frame = 0;
+        input.reset().forEach(onAction);
+    };
+
+    window.addEventListener('gamepadconnected', start);
+    window.addEventListener('gamepaddisconnected', disconnected);
+    if (navigator.getGamepads().some(Boolean)) start();
+    return () => {
+        window.removeEventListener('gamepadconnected', start);
+        window.removeEventListener('gamepaddisconnected', disconnected);
+        cancelAnimationFrame(frame);
+    };
+};
+
+// -- Gestures --
+// Held actions (explode, disco) last from 'enter' to 'exit', the rest fire once on 'enter'.
+// Hand and body triggers can be held at the same time.
+
+const DISCO_COLOR_MS = 300;
+
+// Hand triggers steer the spin, and a held disco spins it (a person moving around the room shouldn't steer the tree)
+const steersRotation = (trigger: GestureTrigger, action: GestureAction | undefined): boolean => {
+    return action === 'disco' || !BODY_TRIGGERS.includes(trigger as BodyTrigger);
+};
+
+const gestureActionInputs = (action: GestureAction): InputAction[] => {
+    switch (action) {
+        case 'none': return [];
+        case 'explode': return [{ type: 'explode' }];
+        case 'disco': return [{ type: 'twinkle', on: true }];
+        default: return [{ type: action }];
+    }
+};
+
+export const createGestureInput = () => {
+    const held = new Map<GestureTrigger, GestureAction>(); // Action of each active trigger, fixed at 'enter'
+    let lastColorChange = 0;
+
+    const update = (event: GestureEvent, mapping: GestureMapping, now: number): InputAction[] => {
+        if (event.type === 'exit') {
+            const action = held.get(event.gesture);
+            held.delete(event.gesture);
+            // Another trigger may still hold the same effect, or be steering the spin
+            const stillHeld = [...held.values()];
+            const actions: InputAction[] = [];
+            const stillSteered = [...held].some(([trigger, heldAction]) => steersRotation(trigger, heldAction));
+            if (steersRotation(event.gesture, action) && !stillSteered) actions.push({ type: 'rotate', speed: 0 });
+            if (action === 'explode' && !stillHeld.includes('explode')) actions.push({ type: 'collapse' });
+            if (action === 'disco' && !stillHeld.includes('disco')) actions.push({ type: 'twinkle', on: false });
+            return actions;
+        }
+
+        const actions: InputAction[] = [];
+        if (event.type === 'enter') {
+            held.set(event.gesture, mapping[event.gesture]);
+            actions.push(...gestureActionInputs(mapping[event.gesture]));
+        }
+
+        // Rotation (enter & hold)
+        if (held.get(event.gesture) === 'disco') {
+            // Cycle colors rapidly and force a fast spin while holding
+            if (now - lastColorChange > DISCO_COLOR_MS) {
+                actions.push({ type: 'nextColor' });
+                lastColorChange = now;
+            }
+            actions.push({ type: 'rotate', speed: 3 });
+        } else if (steersRotation(event.gesture, held.get(event.gesture))) {
+            // Standard hand tracking rotation
+            actions.push({ type: 'rotate', speed: (event.x - 0.5) * 4 });
+        }
+        return actions;
+    };
+
+    return { update };
+};
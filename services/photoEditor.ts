@@ -0,0 +1,80 @@
+import { PhotoEdits, PhotoFilter } from "../types";
+import { loadImage } from './imagePipeline';
+
+// Polaroid windows are square, so every edit renders a square crop
+const MAX_OUTPUT_SIZE = 1024;
+
+// Per-pixel colour transforms. Done by hand because canvas `ctx.filter` is missing on older Safari.
+const FILTER_TRANSFORMS: Record<PhotoFilter, ((r: number, g: number, b: number) => [number, number, number]) | null> = {
+    none: null,
+    warm: (r, g, b) => [r * 1.08 + 10, g * 1.02 + 4, b * 0.88],
+    vintage: (r, g, b) => {
+        // Half-strength sepia with lifted blacks
+        const sr = r * 0.393 + g * 0.769 + b * 0.189;
+        const sg = r * 0.349 + g * 0.686 + b * 0.168;
+        const sb = r * 0.272 + g * 0.534 + b * 0.131;
+        return [(r + sr) / 2 * 0.9 + 20, (g + sg) / 2 * 0.9 + 16, (b + sb) / 2 * 0.9 + 12];
+    },
+    bw: (r, g, b) => {
+        const y = r * 0.299 + g * 0.587 + b * 0.114;
+        return [y, y, y];
+    }
+};
+
+const applyColorEdits = (ctx: CanvasRenderingContext2D, size: number, edits: PhotoEdits) => {
+    const transform = FILTER_TRANSFORMS[edits.filter];
+    if (!transform && edits.brightness === 1 && edits.contrast === 1) return;
+
+    const image = ctx.getImageData(0, 0, size, size);
+    const data = image.data;
+    for (let i = 0; i < data.length; i += 4) {
+        let r = data[i], g = data[i + 1], b = data[i + 2];
+        // Contrast pivots around mid-grey, then brightness scales
+        r = ((r - 128) * edits.contrast + 128) * edits.brightness;
+        g = ((g - 128) * edits.contrast + 128) * edits.brightness;
+        b = ((b - 128) * edits.contrast + 128) * edits.brightness;
+        if (transform) [r, g, b] = transform(r, g, b);
+        data[i] = r; // Uint8ClampedArray clamps to 0-255
+        data[i + 1] = g;
+        data[i + 2] = b;
+    }
+    ctx.putImageData(image, 0, 0);
+};
+
+// Draw the original with the given edits into a square canvas of at most `maxSize` pixels
+export const renderPhotoEdits = (image: CanvasImageSource & { width: number; height: number }, edits: PhotoEdits, maxSize = MAX_OUTPUT_SIZE): HTMLCanvasElement => {
+    const sideways = edits.rotation === 90 || edits.rotation === 270;
+    const rotatedW = sideways ? image.height : image.width;
+    const rotatedH = sideways ? image.width : image.height;
+
+    // Square crop in rotated space, panned within the free space
+    const side = Math.min(rotatedW, rotatedH) / edits.zoom;
+    const cropX = (rotatedW - side) / 2 * (1 + edits.offsetX);
+    const cropY = (rotatedH - side) / 2 * (1 + edits.offsetY);
+
+    const size = Math.max(1, Math.round(Math.min(side, maxSize)));
+    const scale = size / side;
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return canvas;
+
+    // Map rotated-space crop onto the canvas, then rotate the source around its centre
+    ctx.scale(scale, scale);
+    ctx.translate(-cropX + rotatedW / 2, -cropY + rotatedH / 2);
+    ctx.rotate(edits.rotation * Math.PI / 180);
+    ctx.drawImage(image, -image.width / 2, -image.height / 2);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+    applyColorEdits(ctx, size, edits);
+    return canvas;
+};
+
+export const renderPhotoEditsToBlob = async (original: Blob, edits: PhotoEdits): Promise<Blob> => {
+    const image = await loadImage(original);
+    const canvas = renderPhotoEdits(image, edits);
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("图片导出失败。\nCould not export the edited photo.")), 'image/jpeg', 0.85);
+    });
+};
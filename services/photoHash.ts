@@ -0,0 +1,72 @@
+import { loadImage } from './imagePipeline';
+
+// dHash: compare neighbouring pixels of a 9x8 greyscale thumbnail -> 64 bits.
+// Survives re-compression and resizing, so the same picture uploaded twice matches.
+export const HASH_WIDTH = 9;
+export const HASH_HEIGHT = 8;
+
+// Max differing bits (of 64) for two photos to count as the same picture
+const DUPLICATE_THRESHOLD = 6;
+
+// `rgba` is the HASH_WIDTH x HASH_HEIGHT thumbnail from getImageData. Works in workers too.
+export const dHashFromPixels = (rgba: ArrayLike<number>): string => {
+    const grey: number[] = [];
+    for (let i = 0; i < HASH_WIDTH * HASH_HEIGHT; i++) {
+        grey.push(rgba[i * 4] * 0.299 + rgba[i * 4 + 1] * 0.587 + rgba[i * 4 + 2] * 0.114);
+    }
+
+    let hex = '';
+    for (let y = 0; y < HASH_HEIGHT; y++) {
+        let byte = 0;
+        for (let x = 0; x < HASH_WIDTH - 1; x++) {
+            const left = grey[y * HASH_WIDTH + x];
+            const right = grey[y * HASH_WIDTH + x + 1];
+            byte = (byte << 1) | (left > right ? 1 : 0);
+        }
+        hex += byte.toString(16).padStart(2, '0');
+    }
+    return hex;
+};
+
+export const hammingDistance = (a: string, b: string): number => {
+    let distance = 0;
+    for (let i = 0; i < a.length; i += 2) {
+        let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+        while (diff) {
+            distance += diff & 1;
+            diff >>= 1;
+        }
+    }
+    return distance;
+};
+
+export const isNearDuplicate = (a: string, b: string): boolean => hammingDistance(a, b) <= DUPLICATE_THRESHOLD;
+
+// Main-thread hashing for photos that were stored before hashes existed
+export const hashBlob = async (blob: Blob): Promise<string | undefined> => {
+    try {
+        const img = await loadImage(blob);
+        const canvas = document.createElement('canvas');
+        canvas.width = HASH_WIDTH;
+        canvas.height = HASH_HEIGHT;
+        const ctx = canvas.getContext('2d', { willReadFrequently: true });
+        if (!ctx) return undefined;
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(img, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+        return dHashFromPixels(ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT).data);
+    } catch (err) {
+        console.warn("Could not hash photo", err);
+        return undefined;
+    }
+};
+
+// Group ids of near-identical photos; only groups with 2+ members are returned, in input order
+export const findDuplicateGroups = (items: { id: string; hash: string }[]): string[][] => {
+    const groups: { hash: string; ids: string[] }[] = [];
+    for (const item of items) {
+        const group = groups.find(g => isNearDuplicate(g.hash, item.hash));
+        if (group) group.ids.push(item.id);
+        else groups.push({ hash: item.hash, ids: [item.id] });
+    }
+    return groups.filter(g => g.ids.length > 1).map(g => g.ids);
+};
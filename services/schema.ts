@@ -0,0 +1,339 @@
+import { AppConfig, BodyTrigger, BodyTriggerSettings, CustomShape, FocalPoint, GestureAction, GestureCalibration, GestureMapping, PhotoData, PhotoEdits, PhotoFilter, PhotoMeta, PoseGesture, ShapeProfilePoint, ShapeVolume, TreeProject, TreeShape, TreeStyle } from "../types";
+
+// -- Typed Settings Records --
+
+// Records stored once per tree
+export interface TreeSettingsRecords {
+    appConfig: AppConfig;
+    photoMeta: PhotoMeta[];
+}
+
+// Records shared by the whole device
+export interface GlobalSettingsRecords {
+    treeProjects: TreeProject[];
+    activeTreeId: string;
+    gestureMapping: GestureMapping;
+    gestureCalibration: GestureCalibration;
+    bodyTriggers: BodyTriggerSettings;
+    customShapes: CustomShape[]; // Imported shape library (presets are built in)
+}
+
+export type TreeSettingsKey = keyof TreeSettingsRecords;
+export type GlobalSettingsKey = keyof GlobalSettingsRecords;
+export type ScopedSettingsKey<K extends TreeSettingsKey = TreeSettingsKey> = K | `tree:${string}:${K}`;
+export type SettingsKey = GlobalSettingsKey | ScopedSettingsKey;
+
+export type SettingsValue<K extends SettingsKey> =
+    K extends GlobalSettingsKey ? GlobalSettingsRecords[K]
+    : K extends TreeSettingsKey ? TreeSettingsRecords[K]
+    : K extends `tree:${string}:${infer T extends TreeSettingsKey}` ? TreeSettingsRecords[T]
+    : never;
+
+// -- Tree Scoped Keys --
+
+// The original single tree keeps the legacy unprefixed keys, so existing saves load as-is
+export const DEFAULT_TREE_ID = 'default';
+
+// Scope a file key (photo id / 'bg-music') to a tree
+export const treeKey = (treeId: string, key: string): string => {
+    return treeId === DEFAULT_TREE_ID ? key : `tree:${treeId}:${key}`;
+};
+
+// Edited render of a photo, stored next to the untouched original
+export const editedFileKey = (photoId: string): string => `${photoId}#edited`;
+
+// Unscoped file keys a photo owns (none for an empty slot)
+export const photoFileKeys = (photo: PhotoMeta): string[] => {
+    if (photo.isEmpty) return [];
+    return photo.edits ? [photo.id, editedFileKey(photo.id)] : [photo.id];
+};
+
+// Focal point for the image on screen - edited renders were already framed by hand
+export const displayFocalPoint = (photo: PhotoMeta): FocalPoint | undefined => {
+    return photo.edits ? undefined : photo.focalPoint;
+};
+
+// Scope a typed settings key to a tree
+export const treeSettingsKey = <K extends TreeSettingsKey>(treeId: string, key: K): ScopedSettingsKey<K> => {
+    return treeKey(treeId, key) as ScopedSettingsKey<K>;
+};
+
+// Strip the tree scope from a stored key ('tree:abc:photoMeta' -> 'photoMeta')
+export const unscopedKey = (key: string): string => {
+    const match = /^tree:[^:]+:(.+)$/.exec(key);
+    return match ? match[1] : key;
+};
+
+// -- Defaults & Normalizers --
+// Every record read from disk or from an archive goes through these, so older
+// shapes (missing fields, wrong types) are upgraded instead of breaking the app.
+
+const TREE_STYLES: TreeStyle[] = ['classic', 'crayon', 'geometric'];
+const TREE_SHAPES: TreeShape[] = ['tree', 'snowman', 'reindeer', 'santa', 'real_tree', 'diamond', 'twin_towers', 'stool', 'custom'];
+
+export const DEFAULT_APP_CONFIG: AppConfig = {
+    treeColorIndex: 0,
+    treeStyle: 'classic',
+    treeShape: 'tree',
+    customTitle: 'Merry Christmas',
+    headerTitle: 'My Christmas Tree'
+};
+
+export const normalizeAppConfig = (raw: unknown): AppConfig => {
+    const config = { ...DEFAULT_APP_CONFIG };
+    if (!raw || typeof raw !== 'object') return config;
+    const r = raw as Record<string, unknown>;
+
+    if (typeof r.treeColorIndex === 'number' && Number.isInteger(r.treeColorIndex) && r.treeColorIndex >= 0) {
+        config.treeColorIndex = r.treeColorIndex;
+    }
+    if (TREE_STYLES.includes(r.treeStyle as TreeStyle)) config.treeStyle = r.treeStyle as TreeStyle;
+    if (TREE_SHAPES.includes(r.treeShape as TreeShape)) config.treeShape = r.treeShape as TreeShape;
+    // A custom shape without a usable definition falls back to the classic tree
+    const customShape = normalizeCustomShape(r.customShape);
+    if (config.treeShape === 'custom') {
+        if (customShape) config.customShape = customShape;
+        else config.treeShape = 'tree';
+    }
+    if (typeof r.customTitle === 'string') config.customTitle = r.customTitle;
+    if (typeof r.headerTitle === 'string') config.headerTitle = r.headerTitle;
+    return config;
+};
+
+// -- Custom Shapes --
+// Limits keep a hand-edited or hostile file from freezing the point generator
+
+const MAX_PROFILE_POINTS = 200;
+const MAX_VOLUMES = 50;
+const MAX_OUTLINE_POINTS = 1000;
+const MAX_SHAPE_NAME = 40;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const normalizeColor = (value: unknown): string | undefined => {
+    return typeof value === 'string' && /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value) ? value : undefined;
+};
+
+// Shoelace formula; also used to weight extrusions when sampling
+export const outlineArea = (points: [number, number][]): number => {
+    let area = 0;
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+        area += points[j][0] * points[i][1] - points[i][0] * points[j][1];
+    }
+    return Math.abs(area / 2);
+};
+
+const normalizeVector = (value: unknown): [number, number, number] | undefined => {
+    return Array.isArray(value) && value.length === 3 && value.every(isFiniteNumber) ? [value[0], value[1], value[2]] : undefined;
+};
+
+const normalizeShapeVolume = (raw: unknown): ShapeVolume | undefined => {
+    if (!raw || typeof raw !== 'object') return undefined;
+    const r = raw as Record<string, unknown>;
+    const color = normalizeColor(r.color);
+    const withColor = <T extends ShapeVolume>(volume: T): T => (color ? { ...volume, color } : volume);
+
+    if (r.type === 'sphere') {
+        const center = normalizeVector(r.center);
+        if (!center || !isFiniteNumber(r.radius) || r.radius <= 0) return undefined;
+        return withColor({ type: 'sphere', center, radius: r.radius });
+    }
+    if (r.type === 'box') {
+        const center = normalizeVector(r.center);
+        const size = normalizeVector(r.size);
+        if (!center || !size || size.some(v => v <= 0)) return undefined;
+        return withColor({ type: 'box', center, size });
+    }
+    if (r.type === 'extrude') {
+        if (!Array.isArray(r.points) || !isFiniteNumber(r.depth) || r.depth <= 0) return undefined;
+        const points = r.points
+            .filter((p): p is [number, number] => Array.isArray(p) && p.length === 2 && p.every(isFiniteNumber))
+            .slice(0, MAX_OUTLINE_POINTS)
+            .map(([x, y]) => [x, y] as [number, number]);
+        if (points.length < 3 || outlineArea(points) === 0) return undefined;
+        const center = r.center === undefined ? undefined : normalizeVector(r.center);
+        const volume: ShapeVolume = { type: 'extrude', points, depth: r.depth };
+        return withColor(center ? { ...volume, center } : volume);
+    }
+    return undefined;
+};
+
+// Returns undefined when nothing drawable is left
+export const normalizeCustomShape = (raw: unknown): CustomShape | undefined => {
+    if (!raw || typeof raw !== 'object') return undefined;
+    const r = raw as Record<string, unknown>;
+    if (typeof r.id !== 'string' || !r.id) return undefined;
+
+    const profile: ShapeProfilePoint[] = (Array.isArray(r.profile) ? r.profile : [])
+        .map(p => p as Record<string, unknown>)
+        .filter(p => p && isFiniteNumber(p.y) && isFiniteNumber(p.radius) && p.radius >= 0)
+        .slice(0, MAX_PROFILE_POINTS)
+        .map(p => ({ y: p.y as number, radius: p.radius as number }))
+        .sort((a, b) => a.y - b.y);
+    const volumes = (Array.isArray(r.volumes) ? r.volumes : [])
+        .slice(0, MAX_VOLUMES)
+        .map(normalizeShapeVolume)
+        .filter((v): v is ShapeVolume => !!v);
+    const hasProfile = profile.length >= 2 && profile[profile.length - 1].y > profile[0].y && profile.some(p => p.radius > 0);
+    if (!hasProfile && volumes.length === 0) return undefined;
+
+    const shape: CustomShape = {
+        id: r.id,
+        name: typeof r.name === 'string' && r.name.trim() ? r.name.trim().slice(0, MAX_SHAPE_NAME) : 'Custom',
+        profile: hasProfile ? profile : [],
+        volumes
+    };
+    const profileColor = normalizeColor(r.profileColor);
+    if (profileColor && hasProfile) shape.profileColor = profileColor;
+    return shape;
+};
+
+export const normalizeCustomShapes = (raw: unknown): CustomShape[] => {
+    if (!Array.isArray(raw)) return [];
+    const seen = new Set<string>();
+    return raw
+        .map(normalizeCustomShape)
+        .filter((shape): shape is CustomShape => !!shape && !seen.has(shape.id) && !!seen.add(shape.id));
+};
+
+export const GESTURE_CATEGORIES: PoseGesture[] = ['Open_Palm', 'Closed_Fist', 'Victory', 'Thumb_Up', 'Thumb_Down', 'Pointing_Up', 'ILoveYou'];
+export const BODY_TRIGGERS: BodyTrigger[] = ['Arms_Up', 'Smile'];
+export const GESTURE_ACTIONS: GestureAction[] = ['none', 'explode', 'disco', 'sparkle', 'focusRandom', 'toggleAlbum', 'nextColor', 'nextShape', 'startRecording', 'toggleMusic'];
+
+// The original hard-wired behaviour; the newer poses start unassigned
+export const DEFAULT_GESTURE_MAPPING: GestureMapping = {
+    Open_Palm: 'explode',
+    Closed_Fist: 'disco',
+    Victory: 'focusRandom',
+    Thumb_Up: 'none',
+    Thumb_Down: 'none',
+    Pointing_Up: 'none',
+    ILoveYou: 'none',
+    Arms_Up: 'explode',
+    Smile: 'sparkle'
+};
+
+export const normalizeGestureMapping = (raw: unknown): GestureMapping => {
+    const mapping = { ...DEFAULT_GESTURE_MAPPING };
+    if (!raw || typeof raw !== 'object') return mapping;
+    const r = raw as Record<string, unknown>;
+    for (const gesture of [...GESTURE_CATEGORIES, ...BODY_TRIGGERS]) {
+        if (GESTURE_ACTIONS.includes(r[gesture] as GestureAction)) mapping[gesture] = r[gesture] as GestureAction;
+    }
+    return mapping;
+};
+
+// Both detectors are opt-in - they load extra models and slow down weaker devices
+export const DEFAULT_BODY_TRIGGERS: BodyTriggerSettings = { pose: false, face: false };
+
+export const normalizeBodyTriggers = (raw: unknown): BodyTriggerSettings => {
+    if (!raw || typeof raw !== 'object') return { ...DEFAULT_BODY_TRIGGERS };
+    const r = raw as Record<string, unknown>;
+    return { pose: r.pose === true, face: r.face === true };
+};
+
+// The values hand detection shipped with before calibration existed
+export const DEFAULT_GESTURE_CALIBRATION: GestureCalibration = {
+    handConfidence: 0.3,
+    enterScores: {}
+};
+
+export const normalizeGestureCalibration = (raw: unknown): GestureCalibration => {
+    const calibration: GestureCalibration = { ...DEFAULT_GESTURE_CALIBRATION, enterScores: {} };
+    if (!raw || typeof raw !== 'object') return calibration;
+    const r = raw as Record<string, unknown>;
+    calibration.handConfidence = clampNumber(r.handConfidence, 0.1, 0.9, DEFAULT_GESTURE_CALIBRATION.handConfidence);
+    const scores = r.enterScores as Record<string, unknown> | undefined;
+    if (scores && typeof scores === 'object') {
+        for (const gesture of GESTURE_CATEGORIES) {
+            if (typeof scores[gesture] === 'number') calibration.enterScores[gesture] = clampNumber(scores[gesture], 0.3, 0.9, 0.6);
+        }
+    }
+    return calibration;
+};
+
+const PHOTO_FILTERS: PhotoFilter[] = ['none', 'warm', 'vintage', 'bw'];
+
+export const DEFAULT_PHOTO_EDITS: PhotoEdits = {
+    rotation: 0,
+    zoom: 1,
+    offsetX: 0,
+    offsetY: 0,
+    brightness: 1,
+    contrast: 1,
+    filter: 'none'
+};
+
+const clampNumber = (value: unknown, min: number, max: number, fallback: number): number => {
+    return typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+};
+
+// Returns undefined when there is nothing to apply
+export const normalizePhotoEdits = (raw: unknown): PhotoEdits | undefined => {
+    if (!raw || typeof raw !== 'object') return undefined;
+    const r = raw as Record<string, unknown>;
+    const d = DEFAULT_PHOTO_EDITS;
+    return {
+        rotation: ([0, 90, 180, 270] as const).find(v => v === r.rotation) ?? 0,
+        zoom: clampNumber(r.zoom, 1, 3, d.zoom),
+        offsetX: clampNumber(r.offsetX, -1, 1, d.offsetX),
+        offsetY: clampNumber(r.offsetY, -1, 1, d.offsetY),
+        brightness: clampNumber(r.brightness, 0.5, 1.5, d.brightness),
+        contrast: clampNumber(r.contrast, 0.5, 1.5, d.contrast),
+        filter: PHOTO_FILTERS.includes(r.filter as PhotoFilter) ? r.filter as PhotoFilter : d.filter
+    };
+};
+
+export const isDefaultPhotoEdits = (edits: PhotoEdits): boolean => {
+    return (Object.keys(DEFAULT_PHOTO_EDITS) as (keyof PhotoEdits)[]).every(key => edits[key] === DEFAULT_PHOTO_EDITS[key]);
+};
+
+export const PHOTO_DETAIL_KEYS = ['caption', 'takenAt', 'location', 'author'] as const;
+export type PhotoDetailKey = typeof PHOTO_DETAIL_KEYS[number];
+
+export const normalizePhotoMeta = (raw: unknown): PhotoMeta[] => {
+    if (!Array.isArray(raw)) return [];
+    const seen = new Set<string>();
+    const result: PhotoMeta[] = [];
+
+    for (const item of raw) {
+        if (!item || typeof item !== 'object') continue;
+        const r = item as Record<string, unknown>;
+        if (typeof r.id !== 'string' || seen.has(r.id)) continue;
+        seen.add(r.id);
+
+        const meta: PhotoMeta = {
+            ...r,
+            id: r.id,
+            version: typeof r.version === 'number' && Number.isFinite(r.version) ? r.version : 0,
+            isEmpty: typeof r.isEmpty === 'boolean' ? r.isEmpty : false
+        };
+        // Optional text details - drop anything that isn't a non-empty string
+        for (const key of PHOTO_DETAIL_KEYS) {
+            const value = r[key];
+            if (typeof value === 'string' && value.trim()) meta[key] = value;
+            else delete meta[key];
+        }
+        if (r.pinned === true) meta.pinned = true;
+        else delete meta.pinned;
+        const focal = r.focalPoint as Record<string, unknown> | undefined;
+        if (focal && typeof focal === 'object' && typeof focal.x === 'number' && typeof focal.y === 'number') {
+            meta.focalPoint = { x: clampNumber(focal.x, 0, 1, 0.5), y: clampNumber(focal.y, 0, 1, 0.5) };
+        } else delete meta.focalPoint;
+        if (r.mediaType === 'video' || r.mediaType === 'animated') meta.mediaType = r.mediaType;
+        else delete meta.mediaType;
+        if (typeof r.hash === 'string' && /^[0-9a-f]{16}$/.test(r.hash)) meta.hash = r.hash;
+        else delete meta.hash;
+        const edits = normalizePhotoEdits(r.edits);
+        if (edits && !meta.isEmpty) meta.edits = edits;
+        else delete meta.edits;
+        result.push(meta);
+    }
+    return result;
+};
+
+// Persisted view of a photo (drops the runtime object URL)
+export const toPhotoMeta = (photo: PhotoData): PhotoMeta => {
+    const { url, ...meta } = photo;
+    return meta;
+};
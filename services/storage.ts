@@ -1,83 +1,166 @@
+import { SettingsKey, SettingsValue, normalizeAppConfig, normalizePhotoMeta, unscopedKey } from './schema';
 
 const DB_NAME = 'ChristmasTreeDB';
-const DB_VERSION = 1;
 const STORE_FILES = 'files';
 const STORE_SETTINGS = 'settings';
 
-// Initialize the Database
-export const initDB = (): Promise<IDBDatabase> => {
-    return new Promise((resolve, reject) => {
-        const request = indexedDB.open(DB_NAME, DB_VERSION);
-        request.onupgradeneeded = (event) => {
-            const db = (event.target as IDBOpenDBRequest).result;
+interface Migration {
+    version: number;
+    // Runs inside the versionchange transaction, so it may create stores and rewrite records
+    upgrade: (db: IDBDatabase, tx: IDBTransaction) => void;
+}
+
+// Ordered schema history. Never edit a shipped step - append a new one instead.
+const MIGRATIONS: Migration[] = [
+    {
+        // v1: Initial stores
+        version: 1,
+        upgrade: (db) => {
             if (!db.objectStoreNames.contains(STORE_FILES)) {
                 db.createObjectStore(STORE_FILES);
             }
             if (!db.objectStoreNames.contains(STORE_SETTINGS)) {
                 db.createObjectStore(STORE_SETTINGS);
             }
+        }
+    },
+    {
+        // v2: Upgrade untyped appConfig / photoMeta records of every tree to the typed shapes
+        version: 2,
+        upgrade: (db, tx) => {
+            const store = tx.objectStore(STORE_SETTINGS);
+            store.openCursor().onsuccess = (event) => {
+                const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+                if (!cursor) return;
+                const name = unscopedKey(String(cursor.key));
+                if (name === 'appConfig') cursor.update(normalizeAppConfig(cursor.value));
+                if (name === 'photoMeta') cursor.update(normalizePhotoMeta(cursor.value));
+                cursor.continue();
+            };
+        }
+    }
+];
+
+const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Open the database (runs any pending migrations on first open)
+const openDB = (): Promise<IDBDatabase> => {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = (event) => {
+            const db = request.result;
+            const tx = request.transaction!;
+            const oldVersion = event.oldVersion;
+            MIGRATIONS
+                .filter(m => m.version > oldVersion)
+                .forEach(m => m.upgrade(db, tx));
+        };
+        request.onblocked = () => console.warn("Database upgrade is waiting for other tabs to close");
+        request.onsuccess = () => {
+            const db = request.result;
+            // Let a newer version in another tab upgrade instead of being blocked by us
+            db.onversionchange = () => {
+                db.close();
+                dbPromise = null;
+            };
+            // The browser may close the connection (e.g. storage cleared) - reopen on next use
+            db.onclose = () => { dbPromise = null; };
+            resolve(db);
         };
-        request.onsuccess = () => resolve(request.result);
         request.onerror = () => reject(request.error);
     });
 };
 
-// Save a Blob (Photo or Audio)
-export const saveFile = async (id: string, file: Blob): Promise<void> => {
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Get the shared connection - opened once and reused by every call
+export const initDB = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = openDB().catch((err) => {
+            dbPromise = null;
+            throw err;
+        });
+    }
+    return dbPromise;
+};
+
+// Run a batch of requests in ONE transaction. Resolves with their results once it commits.
+const transact = async <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    work: (store: IDBObjectStore) => IDBRequest<T>[],
+    retry = true
+): Promise<T[]> => {
     const db = await initDB();
+    let tx: IDBTransaction;
+    try {
+        tx = db.transaction(storeName, mode);
+    } catch (err) {
+        // Cached connection went stale - drop it and try once with a fresh one
+        if (!retry) throw err;
+        dbPromise = null;
+        return transact(storeName, mode, work, false);
+    }
     return new Promise((resolve, reject) => {
-        const tx = db.transaction(STORE_FILES, 'readwrite');
-        const store = tx.objectStore(STORE_FILES);
-        const req = store.put(file, id);
-        req.onsuccess = () => resolve();
-        req.onerror = () => reject(req.error);
+        const requests = work(tx.objectStore(storeName));
+        tx.oncomplete = () => resolve(requests.map(r => r.result));
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
     });
 };
 
+// Save a Blob (Photo or Audio)
+export const saveFile = async (id: string, file: Blob): Promise<void> => {
+    await transact(STORE_FILES, 'readwrite', store => [store.put(file, id)]);
+};
+
 // Get a Blob
 export const getFile = async (id: string): Promise<Blob | undefined> => {
-    const db = await initDB();
-    return new Promise((resolve, reject) => {
-        const tx = db.transaction(STORE_FILES, 'readonly');
-        const store = tx.objectStore(STORE_FILES);
-        const req = store.get(id);
-        req.onsuccess = () => resolve(req.result);
-        req.onerror = () => reject(req.error);
-    });
+    const [blob] = await transact<Blob | undefined>(STORE_FILES, 'readonly', store => [store.get(id)]);
+    return blob;
 };
 
 // Delete a File
 export const deleteFile = async (id: string): Promise<void> => {
-    const db = await initDB();
-    return new Promise((resolve, reject) => {
-        const tx = db.transaction(STORE_FILES, 'readwrite');
-        const store = tx.objectStore(STORE_FILES);
-        const req = store.delete(id);
-        req.onsuccess = () => resolve();
-        req.onerror = () => reject(req.error);
-    });
+    await transact(STORE_FILES, 'readwrite', store => [store.delete(id)]);
+};
+
+// Save many Blobs in a single transaction
+export const saveFiles = async (entries: { id: string; file: Blob }[]): Promise<void> => {
+    if (entries.length === 0) return;
+    await transact(STORE_FILES, 'readwrite', store => entries.map(e => store.put(e.file, e.id)));
+};
+
+// Get many Blobs in a single transaction (same order as ids, undefined if missing)
+export const getFiles = async (ids: string[]): Promise<(Blob | undefined)[]> => {
+    if (ids.length === 0) return [];
+    return transact<Blob | undefined>(STORE_FILES, 'readonly', store => ids.map(id => store.get(id)));
+};
+
+// Delete many Blobs in a single transaction
+export const deleteFiles = async (ids: string[]): Promise<void> => {
+    if (ids.length === 0) return;
+    await transact(STORE_FILES, 'readwrite', store => ids.map(id => store.delete(id)));
 };
 
 // Save Settings (JSON)
-export const saveSettings = async (key: string, value: any): Promise<void> => {
-    const db = await initDB();
-    return new Promise((resolve, reject) => {
-        const tx = db.transaction(STORE_SETTINGS, 'readwrite');
-        const store = tx.objectStore(STORE_SETTINGS);
-        const req = store.put(value, key);
-        req.onsuccess = () => resolve();
-        req.onerror = () => reject(req.error);
-    });
+export const saveSettings = async <K extends SettingsKey>(key: K, value: SettingsValue<K>): Promise<void> => {
+    await transact(STORE_SETTINGS, 'readwrite', store => [store.put(value, key)]);
 };
 
 // Get Settings
-export const getSettings = async (key: string): Promise<any> => {
-    const db = await initDB();
-    return new Promise((resolve, reject) => {
-        const tx = db.transaction(STORE_SETTINGS, 'readonly');
-        const store = tx.objectStore(STORE_SETTINGS);
-        const req = store.get(key);
-        req.onsuccess = () => resolve(req.result);
-        req.onerror = () => reject(req.error);
-    });
+export const getSettings = async <K extends SettingsKey>(key: K): Promise<SettingsValue<K> | undefined> => {
+    const [value] = await transact<SettingsValue<K> | undefined>(STORE_SETTINGS, 'readonly', store => [store.get(key)]);
+    return value;
+};
+
+// Delete Settings
+export const deleteSettings = async (key: SettingsKey): Promise<void> => {
+    await transact(STORE_SETTINGS, 'readwrite', store => [store.delete(key)]);
+};
+
+// List every key in the files store
+export const listFileKeys = async (): Promise<string[]> => {
+    const [keys] = await transact<IDBValidKey[]>(STORE_FILES, 'readonly', store => [store.getAllKeys()]);
+    return keys.map(String);
 };
@@ -0,0 +1,80 @@
+import { listFileKeys, getFiles, deleteFiles } from './storage';
+import { listTrees, getTreeFileKeys } from './trees';
+import { treeKey } from './schema';
+
+export interface StorageStatus {
+    usage: number;      // Bytes used by this origin
+    quota: number;      // Bytes the browser allows this origin
+    persisted: boolean; // True if the browser won't evict our data under pressure
+}
+
+// Keep a little headroom - the browser counts IndexedDB overhead too
+const QUOTA_SAFETY_MARGIN = 0.9;
+
+export const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+    return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+// Returns null when the Storage API is unavailable (older Safari, insecure context)
+export const getStorageStatus = async (): Promise<StorageStatus | null> => {
+    if (!navigator.storage?.estimate) return null;
+    try {
+        const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+        const persisted = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+        return { usage, quota, persisted };
+    } catch (e) {
+        console.warn("Storage estimate failed", e);
+        return null;
+    }
+};
+
+// Ask the browser not to evict our photos. Resolves true if storage is (now) persistent.
+export const requestPersistentStorage = async (): Promise<boolean> => {
+    if (!navigator.storage?.persist) return false;
+    try {
+        if (navigator.storage.persisted && await navigator.storage.persisted()) return true;
+        return await navigator.storage.persist();
+    } catch (e) {
+        console.warn("Persistent storage request failed", e);
+        return false;
+    }
+};
+
+// Check whether `bytes` more data should fit. Unknown quota is treated as enough.
+export const checkUploadQuota = async (bytes: number): Promise<{ fits: boolean; available: number }> => {
+    const status = await getStorageStatus();
+    if (!status || status.quota === 0) return { fits: true, available: Infinity };
+    const available = Math.max(0, status.quota * QUOTA_SAFETY_MARGIN - status.usage);
+    return { fits: bytes <= available, available };
+};
+
+// Scoped keys being written by an upload that no photo list references yet
+const heldKeys = new Set<string>();
+
+// Protect keys from the sweep while they are saved. Call the returned function once the photos are in state.
+export const holdFileKeys = (keys: string[]): (() => void) => {
+    keys.forEach(key => heldKeys.add(key));
+    return () => keys.forEach(key => heldKeys.delete(key));
+};
+
+// Delete Blobs in the files store that no tree references any more.
+// `liveKeys` are scoped keys the app holds in memory but may not have persisted yet.
+export const sweepOrphanedFiles = async (liveKeys: string[] = []): Promise<{ removed: number; bytes: number }> => {
+    const referenced = new Set(liveKeys);
+    for (const tree of await listTrees()) {
+        for (const key of await getTreeFileKeys(tree.id)) {
+            referenced.add(treeKey(tree.id, key));
+        }
+    }
+
+    const orphans = (await listFileKeys()).filter(key => !referenced.has(key) && !heldKeys.has(key));
+    if (orphans.length === 0) return { removed: 0, bytes: 0 };
+
+    const blobs = await getFiles(orphans);
+    const bytes = blobs.reduce((sum, blob) => sum + (blob?.size || 0), 0);
+    await deleteFiles(orphans);
+    return { removed: orphans.length, bytes };
+};
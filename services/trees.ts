@@ -0,0 +1,89 @@
+import { TreeProject } from "../types";
+import { saveFiles, getFiles, deleteFiles, saveSettings, getSettings, deleteSettings } from './storage';
+import { DEFAULT_TREE_ID, TreeSettingsKey, treeKey, treeSettingsKey, normalizePhotoMeta, editedFileKey, photoFileKeys } from './schema';
+
+// Keys stored per tree (settings store) and the music file key (files store)
+const TREE_SETTINGS_KEYS: TreeSettingsKey[] = ['appConfig', 'photoMeta'];
+const MUSIC_KEY = 'bg-music';
+
+const createTreeId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// List all trees (always contains at least the default tree)
+export const listTrees = async (): Promise<TreeProject[]> => {
+    const trees = await getSettings('treeProjects');
+    if (Array.isArray(trees) && trees.length > 0) return trees;
+
+    const initial: TreeProject[] = [{ id: DEFAULT_TREE_ID, name: 'My Christmas Tree', createdAt: Date.now() }];
+    await saveSettings('treeProjects', initial);
+    return initial;
+};
+
+export const getActiveTreeId = async (): Promise<string> => {
+    const trees = await listTrees();
+    const activeId = await getSettings('activeTreeId');
+    // Fall back to the first tree if the saved one was deleted
+    const active = trees.find(t => t.id === activeId);
+    return active ? active.id : trees[0].id;
+};
+
+export const setActiveTreeId = async (id: string): Promise<void> => {
+    await saveSettings('activeTreeId', id);
+};
+
+export const createTree = async (name: string): Promise<TreeProject> => {
+    const trees = await listTrees();
+    const tree: TreeProject = { id: createTreeId(), name, createdAt: Date.now() };
+    await saveSettings('treeProjects', [...trees, tree]);
+    return tree;
+};
+
+export const renameTree = async (id: string, name: string): Promise<TreeProject[]> => {
+    const trees = (await listTrees()).map(t => t.id === id ? { ...t, name } : t);
+    await saveSettings('treeProjects', trees);
+    return trees;
+};
+
+// Unscoped keys of every file a tree references: its photos (and edited copies) plus the music
+export const getTreeFileKeys = async (treeId: string): Promise<string[]> => {
+    const photoMeta = normalizePhotoMeta(await getSettings(treeSettingsKey(treeId, 'photoMeta')));
+    return [...photoMeta.flatMap(photoFileKeys), MUSIC_KEY];
+};
+
+// Copy settings, photo blobs and music into a brand new tree
+export const duplicateTree = async (sourceId: string, name: string): Promise<TreeProject> => {
+    const tree = await createTree(name);
+
+    for (const key of TREE_SETTINGS_KEYS) {
+        const value = await getSettings(treeSettingsKey(sourceId, key));
+        if (value !== undefined) await saveSettings(treeSettingsKey(tree.id, key), value);
+    }
+
+    // Copy all blobs with one read and one write transaction
+    const keys = await getTreeFileKeys(sourceId);
+    const blobs = await getFiles(keys.map(key => treeKey(sourceId, key)));
+    await saveFiles(keys
+        .map((key, i) => ({ id: treeKey(tree.id, key), file: blobs[i] }))
+        .filter((entry): entry is { id: string; file: Blob } => !!entry.file));
+
+    return tree;
+};
+
+// Remove a tree and everything stored for it. The last remaining tree cannot be deleted.
+export const deleteTree = async (id: string): Promise<TreeProject[]> => {
+    const trees = await listTrees();
+    if (trees.length <= 1) return trees;
+
+    // Include empty slots too, in case a stale Blob was left behind
+    const photoMeta = normalizePhotoMeta(await getSettings(treeSettingsKey(id, 'photoMeta')));
+    await deleteFiles([
+        ...photoMeta.flatMap(p => [treeKey(id, p.id), treeKey(id, editedFileKey(p.id))]),
+        treeKey(id, MUSIC_KEY)
+    ]);
+    for (const key of TREE_SETTINGS_KEYS) {
+        await deleteSettings(treeSettingsKey(id, key));
+    }
+
+    const remaining = trees.filter(t => t.id !== id);
+    await saveSettings('treeProjects', remaining);
+    return remaining;
+};
@@ -0,0 +1,38 @@
+// Short clips are stored as-is (no re-encoding), so keep them small
+export const MAX_VIDEO_SECONDS = 15;
+export const MAX_VIDEO_BYTES = 30 * 1024 * 1024;
+
+export const isVideoFile = (file: Blob): boolean => file.type.startsWith('video/');
+
+const readDuration = (file: Blob): Promise<number> => {
+    return new Promise((resolve, reject) => {
+        const video = document.createElement('video');
+        const url = URL.createObjectURL(file);
+        video.preload = 'metadata';
+        video.muted = true;
+        video.onloadedmetadata = () => {
+            URL.revokeObjectURL(url);
+            if (!video.videoWidth) reject(new Error("视频没有画面。\nThe video has no picture."));
+            else resolve(video.duration);
+        };
+        video.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error("此浏览器无法播放该视频，请转换为 MP4 (H.264)。\nThis browser can't play the video. Please convert it to MP4 (H.264)."));
+        };
+        video.src = url;
+    });
+};
+
+// Check a clip against the limits. Throws an Error with a bilingual message when it can't be used.
+export const prepareVideo = async (file: Blob): Promise<Blob> => {
+    if (file.size > MAX_VIDEO_BYTES) {
+        const mb = Math.round(MAX_VIDEO_BYTES / 1024 / 1024);
+        throw new Error(`视频太大 (最大 ${mb} MB)。\nThe video is too large (${mb} MB max).`);
+    }
+    const duration = await readDuration(file);
+    // Browser recordings (WebM) can report Infinity - the size limit still applies to those
+    if (Number.isFinite(duration) && duration > MAX_VIDEO_SECONDS) {
+        throw new Error(`视频太长 (最长 ${MAX_VIDEO_SECONDS} 秒)。\nThe video is too long (${MAX_VIDEO_SECONDS} seconds max).`);
+    }
+    return file;
+};
@@ -0,0 +1,40 @@
+import { FilesetResolver } from '@mediapipe/tasks-vision';
+
+type VisionFileset = Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>;
+
+// MediaPipe files are served with the app by default (WASM copied by vite.config.ts, models
+// downloaded by `npm run fetch-models`), so gestures keep working without internet.
+// Set VITE_MEDIAPIPE_BASE to host them elsewhere.
+const configuredBase = import.meta.env.VITE_MEDIAPIPE_BASE || `${import.meta.env.BASE_URL}mediapipe/`;
+export const MEDIAPIPE_BASE = configuredBase.endsWith('/') ? configuredBase : `${configuredBase}/`;
+
+const WASM_URL = `${MEDIAPIPE_BASE}wasm`;
+
+export const mediapipeModelUrl = (file: string): string => `${MEDIAPIPE_BASE}models/${file}`;
+
+// MediaPipe loads its WASM glue with importScripts(), which module workers don't allow.
+// A synchronous request + global eval does the same job. Call once at the top of a worker.
+export const allowImportScripts = () => {
+    (self as unknown as { importScripts: (...urls: string[]) => void }).importScripts = (...urls: string[]) => {
+        for (const url of urls) {
+            const xhr = new XMLHttpRequest();
+            xhr.open('GET', url, false);
+            xhr.send();
+            if (xhr.status !== 200) throw new Error(`Failed to load ${url} (${xhr.status})`);
+            (0, eval)(xhr.responseText);
+        }
+    };
+};
+
+let filesetPromise: Promise<VisionFileset> | null = null;
+
+// The WASM runtime is shared by every MediaPipe task (gestures, faces, ...) - resolve it once
+export const loadVisionFileset = (): Promise<VisionFileset> => {
+    if (!filesetPromise) {
+        filesetPromise = FilesetResolver.forVisionTasks(WASM_URL).catch((err) => {
+            filesetPromise = null;
+            throw err;
+        });
+    }
+    return filesetPromise;
+};
@@ -1,21 +1,123 @@
 
 export type AppMode = 'tree' | 'focus' | 'album';
 
-export type GestureType = 'Open_Palm' | 'Victory' | 'Closed_Fist' | 'None';
+// Categories emitted by the MediaPipe gesture model
+export type GestureType = 'Open_Palm' | 'Closed_Fist' | 'Victory' | 'Thumb_Up' | 'Thumb_Down' | 'Pointing_Up' | 'ILoveYou' | 'None';
+
+// 'explode' and 'disco' last while the pose is held, the others fire once when it starts
+export type GestureAction = 'none' | 'explode' | 'disco' | 'sparkle' | 'focusRandom' | 'toggleAlbum' | 'nextColor' | 'nextShape' | 'startRecording' | 'toggleMusic';
+
+// A recognized pose (anything but 'None')
+export type PoseGesture = Exclude<GestureType, 'None'>;
+
+// Whole-body triggers from the optional pose and face detectors
+export type BodyTrigger = 'Arms_Up' | 'Smile';
+
+// Anything that can be mapped to an action
+export type GestureTrigger = PoseGesture | BodyTrigger;
+
+export type GestureMapping = Record<GestureTrigger, GestureAction>;
+
+// Which optional detectors run next to hand recognition (each costs frame rate)
+export interface BodyTriggerSettings {
+  pose: boolean; // Both arms raised
+  face: boolean; // Smile
+}
+
+// Tuned by the calibration wizard for this user's camera and lighting
+export interface GestureCalibration {
+  handConfidence: number; // Min hand detection / presence / tracking confidence
+  enterScores: Partial<Record<PoseGesture, number>>; // Overrides the built-in score needed to start a gesture
+}
 
 export type TreeStyle = 'classic' | 'crayon' | 'geometric';
 
-export type TreeShape = 'tree' | 'snowman' | 'reindeer' | 'santa' | 'real_tree' | 'diamond' | 'twin_towers' | 'stool';
+// 'custom' draws the tree's CustomShape definition
+export type TreeShape = 'tree' | 'snowman' | 'reindeer' | 'santa' | 'real_tree' | 'diamond' | 'twin_towers' | 'stool' | 'custom';
 
-export interface PhotoData {
+// -- Custom Shapes --
+// Scene units: the shape stands from y = -9 (ground) to 9, about as wide as the classic tree (radius 9).
+// Imported files are scaled to fit, so any units work there.
+
+// Radius of a round body at a height (a lathe, like the classic cone)
+export interface ShapeProfilePoint {
+  y: number;
+  radius: number;
+}
+
+export type ShapeVolume =
+  | { type: 'sphere'; center: [number, number, number]; radius: number; color?: string }
+  | { type: 'box'; center: [number, number, number]; size: [number, number, number]; color?: string }
+  // A flat outline (x, y) pushed out along z, e.g. a star or a logo
+  | { type: 'extrude'; points: [number, number][]; depth: number; center?: [number, number, number]; color?: string };
+
+export interface CustomShape {
+  id: string;
+  name: string;
+  profile: ShapeProfilePoint[]; // Sorted by y; empty for shapes made only of volumes
+  profileColor?: string;
+  volumes: ShapeVolume[];
+}
+
+export type PhotoFilter = 'none' | 'warm' | 'vintage' | 'bw';
+
+export type MediaType = 'image' | 'animated' | 'video';
+
+// Point of interest in a photo (0-1, top-left origin), e.g. the centre of the faces
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
+// Non-destructive edits, re-applied to the untouched original Blob
+export interface PhotoEdits {
+  rotation: 0 | 90 | 180 | 270; // Clockwise
+  zoom: number;       // 1 = largest square crop, up to 3
+  offsetX: number;    // -1..1, pans the crop within the free space
+  offsetY: number;
+  brightness: number; // 1 = unchanged
+  contrast: number;   // 1 = unchanged
+  filter: PhotoFilter;
+}
+
+// Persisted part of a photo slot (stored in `photoMeta`)
+export interface PhotoMeta {
   id: string;
-  url: string;
   version: number; // Used to force re-render when content changes
   isEmpty: boolean; // True if this slot is waiting for a user photo
+  caption?: string; // Handwritten line under the photo
+  takenAt?: string; // Date taken (YYYY-MM-DD), read from EXIF when available
+  location?: string;
+  author?: string;
+  pinned?: boolean; // Pinned photos sit at the top of the tree
+  edits?: PhotoEdits; // Present when an edited copy is stored next to the original
+  focalPoint?: FocalPoint; // Crops keep this point in view
+  hash?: string; // Perceptual hash (16 hex chars) used to spot duplicates
+  mediaType?: MediaType; // Missing means a still 'image'
+}
+
+export interface PhotoData extends PhotoMeta {
+  url: string;
+}
+
+// Persisted per-tree settings (stored in `appConfig`)
+export interface AppConfig {
+  treeColorIndex: number;
+  treeStyle: TreeStyle;
+  treeShape: TreeShape;
+  customShape?: CustomShape; // Copy of the chosen definition when treeShape is 'custom', so archives carry it
+  customTitle: string;
+  headerTitle: string;
 }
 
 export interface TreeConfig {
   radius: number;
   height: number;
   particleCount: number;
-}
\ No newline at end of file
+}
+
+export interface TreeProject {
+  id: string;
+  name: string;
+  createdAt: number;
+}
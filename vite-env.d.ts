@@ -0,0 +1,14 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Where the MediaPipe WASM runtime and models are served from (default: bundled under `mediapipe/`)
+  readonly VITE_MEDIAPIPE_BASE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
+
+// Set by vite.config.ts to version the service worker caches
+declare const __BUILD_ID__: string;
+declare const __MEDIAPIPE_VERSION__: string;
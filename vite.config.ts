@@ -1,11 +1,41 @@
+import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+// Serve (dev) and emit (build) the MediaPipe WASM runtime from node_modules under `mediapipe/wasm/`,
+// so gesture and face detection don't depend on a CDN
+const mediapipeWasm = (): Plugin => {
+    const wasmDir = path.resolve(__dirname, 'node_modules/@mediapipe/tasks-vision/wasm');
+    let base = '/';
+    return {
+        name: 'mediapipe-wasm',
+        configResolved(config) {
+            base = config.base;
+        },
+        configureServer(server) {
+            server.middlewares.use(`${base}mediapipe/wasm`, (req, res, next) => {
+                const file = path.join(wasmDir, path.basename((req.url ?? '').split('?')[0]));
+                if (!fs.existsSync(file) || !fs.statSync(file).isFile()) return next();
+                res.setHeader('Content-Type', file.endsWith('.wasm') ? 'application/wasm' : 'text/javascript');
+                fs.createReadStream(file).pipe(res);
+            });
+        },
+        generateBundle() {
+            for (const file of fs.readdirSync(wasmDir)) {
+                this.emitFile({ type: 'asset', fileName: `mediapipe/wasm/${file}`, source: fs.readFileSync(path.join(wasmDir, file)) });
+            }
+        }
+    };
+};
+
+// Names the service worker caches: a new build replaces the app cache, a new runtime the MediaPipe one
+const packageJson = JSON.parse(fs.readFileSync(path.resolve(__dirname, 'package.json'), 'utf-8'));
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -13,10 +43,12 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), mediapipeWasm()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        __BUILD_ID__: JSON.stringify(Date.now().toString(36)),
+        __MEDIAPIPE_VERSION__: JSON.stringify(packageJson.dependencies['@mediapipe/tasks-vision'])
       },
       resolve: {
         alias: {
@@ -24,4 +56,4 @@ export default defineConfig(({ mode }) => {
         }
       }
     };
-});
\ No newline at end of file
+});